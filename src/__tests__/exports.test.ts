@@ -41,6 +41,16 @@ describe('Package Exports', () => {
       expect(useCacheContext).toBeDefined()
       expect(typeof useCacheContext).toBe('function')
     })
+
+    it('should export useReportInvalidation from react', async () => {
+      const { useReportInvalidation } = await import('../react.js')
+      expect(typeof useReportInvalidation).toBe('function')
+    })
+
+    it('should export useActionInvalidation from react', async () => {
+      const { useActionInvalidation } = await import('../react.js')
+      expect(typeof useActionInvalidation).toBe('function')
+    })
   })
 
   describe('Type exports', () => {
@@ -1,3 +1,37 @@
 // Server-side exports
 export { createCache } from './server/cache.js'
-export type { Cache, CacheConfig } from './types/cache.js'
+export { createPollingHandler } from './server/polling-handler.js'
+export { cacheHeaders, cachedJson } from './server/http-cache.js'
+export { cachedLoader } from './server/cached-loader.js'
+export { withInvalidation } from './server/with-invalidation.js'
+export type { WithInvalidationOptions } from './server/with-invalidation.js'
+export type {
+  CachedLoaderArgs,
+  CachedLoaderOptions,
+} from './server/cached-loader.js'
+export type {
+  CacheHeadersInit,
+  CacheHeadersOptions,
+  CachedJsonInit,
+} from './server/http-cache.js'
+export { CacheUnavailableError } from './server/errors.js'
+export { MemoryStore } from './server/memory-store.js'
+export { RedisStore } from './server/redis-store.js'
+export type {
+  Cache,
+  CacheConfig,
+  CacheHealth,
+  CacheResult,
+  GcOptions,
+  GcResult,
+  InvalidationListener,
+  InvalidationPage,
+  InvalidationSummary,
+  InvalidationTargets,
+  ScheduledJob,
+  ScheduledJobStatus,
+  ScheduleOptions,
+  WarmOptions,
+  WarmResult,
+} from './types/cache.js'
+export type { CacheStore, CacheStoreBatch } from './server/store.js'
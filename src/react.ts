@@ -1,5 +1,9 @@
 // Client-side React exports
 export { CacheProvider } from './react/provider.js'
 export { useCache } from './react/use-cache.js'
+export {
+  useActionInvalidation,
+  useReportInvalidation,
+} from './react/use-report-invalidation.js'
 export { useCacheContext } from './react/context.js'
 export type { CacheProviderProps, UseCacheOptions } from './types/react.js'
@@ -1,7 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, waitFor } from '@testing-library/react'
+import { act, render, screen, waitFor } from '@testing-library/react'
 import { CacheProvider } from '../provider.js'
 import { useCacheContext } from '../context.js'
+import {
+  useActionInvalidation,
+  useReportInvalidation,
+} from '../use-report-invalidation.js'
+import {
+  INVALIDATION_HEADER,
+  encodeInvalidationHeader,
+  withInvalidationData,
+} from '../../utils/invalidation-header.js'
 
 // Mock useEventSource from remix-utils
 vi.mock('remix-utils/sse/react', () => ({
@@ -296,4 +305,216 @@ describe('CacheProvider', () => {
       expect(screen.getByText('Count: 0')).toBeInTheDocument()
     })
   })
+
+  describe('polling transport', () => {
+    function jsonResponse(body: unknown) {
+      return new Response(JSON.stringify(body), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    it('should poll the endpoint with the returned cursor', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ events: [], cursor: '1-0' }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            events: [{ key: 'test:user:1', timestamp: 1000 }],
+            cursor: '2-0',
+          })
+        )
+        .mockResolvedValue(jsonResponse({ events: [], cursor: '2-0' }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      function TestComponent() {
+        const context = useCacheContext()
+        return <div>Count: {context.invalidations.length}</div>
+      }
+
+      try {
+        render(
+          <CacheProvider
+            transport="polling"
+            endpoint="/api/cache-poll"
+            pollInterval={20}
+          >
+            <TestComponent />
+          </CacheProvider>
+        )
+
+        await waitFor(() => {
+          expect(screen.getByText('Count: 1')).toBeInTheDocument()
+        })
+
+        expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/cache-poll')
+        expect(fetchMock).toHaveBeenNthCalledWith(
+          2,
+          '/api/cache-poll?cursor=1-0'
+        )
+        expect(useEventSource).not.toHaveBeenCalled()
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+
+    it('should keep the endpoint query and revalidate all on reset', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ events: [], cursor: '1-0' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ events: [], cursor: '9-0', reset: true })
+        )
+        .mockResolvedValue(jsonResponse({ events: [], cursor: '9-0' }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      function TestComponent() {
+        const context = useCacheContext()
+        return (
+          <div>
+            Truncated: {context.invalidations.filter((e) => e.truncated).length}
+          </div>
+        )
+      }
+
+      try {
+        render(
+          <CacheProvider
+            transport="polling"
+            endpoint="/api/cache-poll?tags=posts"
+            pollInterval={20}
+          >
+            <TestComponent />
+          </CacheProvider>
+        )
+
+        await waitFor(() => {
+          expect(screen.getByText('Truncated: 1')).toBeInTheDocument()
+        })
+        expect(fetchMock).toHaveBeenNthCalledWith(
+          2,
+          '/api/cache-poll?tags=posts&cursor=1-0'
+        )
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+
+    it('should not start a poll before the previous one settles', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const fetchMock = vi.fn(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 30))
+        inFlight--
+        return jsonResponse({ events: [], cursor: '1-0' })
+      })
+      vi.stubGlobal('fetch', fetchMock)
+
+      try {
+        const { unmount } = render(
+          <CacheProvider transport="polling" pollInterval={5}>
+            <div />
+          </CacheProvider>
+        )
+
+        await waitFor(() => {
+          expect(fetchMock.mock.calls.length).toBeGreaterThanOrEqual(3)
+        })
+        unmount()
+        expect(maxInFlight).toBe(1)
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+  })
+
+  describe('action response headers', () => {
+    it('should add invalidations reported from action responses', async () => {
+      vi.mocked(useEventSource).mockReturnValue(null)
+      const header = encodeInvalidationHeader({
+        tags: ['posts'],
+        keys: ['test:post:1'],
+        timestamp: 1000,
+      })
+      let reportInvalidation!: (response: Response) => void
+
+      function TestComponent() {
+        const context = useCacheContext()
+        reportInvalidation = useReportInvalidation()
+        return (
+          <div>
+            Tags: {context.invalidations.flatMap((e) => e.tags).join(',')}
+          </div>
+        )
+      }
+
+      render(
+        <CacheProvider>
+          <TestComponent />
+        </CacheProvider>
+      )
+
+      act(() => {
+        reportInvalidation(new Response('{}'))
+        reportInvalidation(
+          new Response('{}', { headers: { [INVALIDATION_HEADER]: header } })
+        )
+      })
+
+      await waitFor(() => {
+        expect(screen.getByText('Tags: posts')).toBeInTheDocument()
+      })
+    })
+
+    it('should add invalidations from action data once', async () => {
+      vi.mocked(useEventSource).mockReturnValue(null)
+      const data = withInvalidationData(
+        { ok: true },
+        { tags: ['posts'], keys: [], timestamp: 1000 }
+      )
+      let count = 0
+
+      function TestComponent({ data }: { data: unknown }) {
+        const context = useCacheContext()
+        useActionInvalidation(data)
+        count = context.invalidations.length
+        return null
+      }
+
+      const { rerender } = render(
+        <CacheProvider>
+          <TestComponent data={undefined} />
+        </CacheProvider>
+      )
+      rerender(
+        <CacheProvider>
+          <TestComponent data={data} />
+        </CacheProvider>
+      )
+      rerender(
+        <CacheProvider>
+          <TestComponent data={data} />
+        </CacheProvider>
+      )
+
+      await waitFor(() => {
+        expect(count).toBe(1)
+      })
+    })
+
+    it('should leave fetch alone', () => {
+      vi.mocked(useEventSource).mockReturnValue(null)
+      const originalFetch = globalThis.fetch
+
+      const { unmount } = render(
+        <CacheProvider>
+          <div />
+        </CacheProvider>
+      )
+
+      expect(globalThis.fetch).toBe(originalFetch)
+      unmount()
+    })
+  })
 })
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, waitFor } from '@testing-library/react'
 import { useCache } from '../use-cache.js'
 import { CacheProvider } from '../provider.js'
-import type { InvalidationEvent } from '../context.js'
+import { CacheContext, type InvalidationEvent } from '../context.js'
 
 // Mock @remix-run/react
 vi.mock('@remix-run/react', () => ({
@@ -117,6 +117,42 @@ describe('useCache', () => {
     )
   })
 
+  it('should revalidate when a batch invalidation lists the key', async () => {
+    const event = JSON.stringify({
+      tags: ['users'],
+      keys: ['test:user:1', 'test:user:123'],
+      timestamp: Date.now(),
+    })
+
+    vi.mocked(useEventSource)
+      .mockReturnValueOnce(null)
+      .mockReturnValueOnce(event)
+
+    function TestComponent() {
+      useCache({ keys: ['test:user:123'] })
+      return <div>Test</div>
+    }
+
+    const { rerender } = render(
+      <CacheProvider>
+        <TestComponent />
+      </CacheProvider>
+    )
+
+    rerender(
+      <CacheProvider>
+        <TestComponent />
+      </CacheProvider>
+    )
+
+    await waitFor(
+      () => {
+        expect(mockRevalidate).toHaveBeenCalled()
+      },
+      { timeout: 500 }
+    )
+  })
+
   it('should not revalidate when non-matching key is invalidated', async () => {
     const event = JSON.stringify({
       key: 'test:user:999',
@@ -290,6 +326,68 @@ describe('useCache', () => {
     )
   })
 
+  it('should revalidate every subscription on a truncated event', async () => {
+    const event = JSON.stringify({
+      tags: [],
+      keys: [],
+      timestamp: Date.now(),
+      truncated: true,
+    })
+
+    vi.mocked(useEventSource)
+      .mockReturnValueOnce(null)
+      .mockReturnValueOnce(event)
+
+    function TestComponent() {
+      useCache({ tags: ['posts'] })
+      return <div>Test</div>
+    }
+
+    const { rerender } = render(
+      <CacheProvider>
+        <TestComponent />
+      </CacheProvider>
+    )
+
+    rerender(
+      <CacheProvider>
+        <TestComponent />
+      </CacheProvider>
+    )
+
+    await waitFor(
+      () => {
+        expect(mockRevalidate).toHaveBeenCalled()
+      },
+      { timeout: 500 }
+    )
+  })
+
+  it('should check every event added since the last render', async () => {
+    function TestComponent() {
+      useCache({ tags: ['posts'], debounce: 10 })
+      return <div>Test</div>
+    }
+    const withEvents = (invalidations: InvalidationEvent[]) => (
+      <CacheContext.Provider value={{ invalidations, report: vi.fn() }}>
+        <TestComponent />
+      </CacheContext.Provider>
+    )
+
+    const { rerender } = render(withEvents([]))
+    // A polled page: the match comes before another event
+    rerender(
+      withEvents([
+        { tag: 'posts', timestamp: 1 },
+        { tag: 'users', timestamp: 2 },
+      ])
+    )
+
+    await waitFor(() => {
+      expect(mockRevalidate).toHaveBeenCalledTimes(1)
+    })
+  })
+
   it('should debounce revalidation calls', async () => {
     const event1 = JSON.stringify({ key: 'test:user:1', timestamp: 1000 })
     const event2 = JSON.stringify({ key: 'test:user:2', timestamp: 2000 })
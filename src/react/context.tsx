@@ -7,10 +7,19 @@ export interface InvalidationEvent {
   pattern?: string
   keys?: string[]
   timestamp: number
+  /**
+   * Sent without its tags and keys (too many to list), so it matches
+   * every subscription
+   */
+  truncated?: boolean
 }
 
 export interface CacheContextValue {
   invalidations: InvalidationEvent[]
+  /**
+   * Add an invalidation seen outside the provider's transport
+   */
+  report: (event: InvalidationEvent) => void
 }
 
 export const CacheContext = createContext<CacheContextValue | null>(null)
@@ -1,18 +1,43 @@
-import { useState, useEffect, type ReactNode } from 'react'
+import { useState, useEffect, useCallback, type ReactNode } from 'react'
 import { useEventSource } from 'remix-utils/sse/react'
 import { CacheContext, type InvalidationEvent } from './context.js'
 
 export interface CacheProviderProps {
   children: ReactNode
   endpoint?: string
+  transport?: 'sse' | 'polling'
+  pollInterval?: number
 }
 
 export function CacheProvider({
   children,
   endpoint = '/api/cache-events',
+  transport = 'sse',
+  pollInterval = 5000,
 }: CacheProviderProps) {
+  if (transport === 'polling') {
+    return (
+      <PollingCacheProvider endpoint={endpoint} pollInterval={pollInterval}>
+        {children}
+      </PollingCacheProvider>
+    )
+  }
+
+  return <SSECacheProvider endpoint={endpoint}>{children}</SSECacheProvider>
+}
+
+function SSECacheProvider({
+  children,
+  endpoint,
+}: {
+  children: ReactNode
+  endpoint: string
+}) {
   const [invalidations, setInvalidations] = useState<InvalidationEvent[]>([])
   const event = useEventSource(endpoint, { event: 'invalidate' })
+  const report = useCallback((event: InvalidationEvent) => {
+    setInvalidations((prev) => [...prev, event])
+  }, [])
 
   useEffect(() => {
     if (event) {
@@ -26,7 +51,93 @@ export function CacheProvider({
   }, [event])
 
   return (
-    <CacheContext.Provider value={{ invalidations }}>
+    <CacheContext.Provider value={{ invalidations, report }}>
+      {children}
+    </CacheContext.Provider>
+  )
+}
+
+/**
+ * Add `cursor` to the endpoint's query string, keeping its own params
+ */
+function withCursor(endpoint: string, cursor?: string): string {
+  if (!cursor) return endpoint
+
+  const queryStart = endpoint.indexOf('?')
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart)
+  const params = new URLSearchParams(
+    queryStart === -1 ? '' : endpoint.slice(queryStart + 1)
+  )
+  params.set('cursor', cursor)
+  return `${path}?${params}`
+}
+
+/**
+ * Polls an endpoint created with `createPollingHandler`, passing back
+ * the cursor from each response so only new invalidations are returned.
+ */
+function PollingCacheProvider({
+  children,
+  endpoint,
+  pollInterval,
+}: {
+  children: ReactNode
+  endpoint: string
+  pollInterval: number
+}) {
+  const [invalidations, setInvalidations] = useState<InvalidationEvent[]>([])
+  const report = useCallback((event: InvalidationEvent) => {
+    setInvalidations((prev) => [...prev, event])
+  }, [])
+
+  useEffect(() => {
+    let cursor: string | undefined
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const response = await fetch(withCursor(endpoint, cursor))
+        if (!response.ok || cancelled) return
+
+        const page = (await response.json()) as {
+          events: InvalidationEvent[]
+          cursor: string
+          reset?: boolean
+        }
+        if (cancelled) return
+
+        if (page.reset) {
+          // Events were trimmed from the log before this client read
+          // them, so revalidate every subscription
+          setInvalidations((prev) => [
+            ...prev,
+            { truncated: true, timestamp: Date.now() },
+          ])
+        } else if (cursor && page.events.length > 0) {
+          // The first response only establishes where to start from
+          setInvalidations((prev) => [...prev, ...page.events])
+        }
+        cursor = page.cursor
+      } catch (e) {
+        // Network errors are retried on the next poll
+      } finally {
+        // Schedule the next poll once this one settles, so two polls
+        // never read from the same cursor
+        if (!cancelled) timer = setTimeout(poll, pollInterval)
+      }
+    }
+
+    void poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [endpoint, pollInterval])
+
+  return (
+    <CacheContext.Provider value={{ invalidations, report }}>
       {children}
     </CacheContext.Provider>
   )
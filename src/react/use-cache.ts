@@ -1,4 +1,4 @@
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useRevalidator } from '@remix-run/react'
 import { useCacheContext, type InvalidationEvent } from './context.js'
 import { matchPattern } from '../utils/pattern-match.js'
@@ -15,7 +15,7 @@ function matchesFilter(
   options?: UseCacheOptions
 ): boolean {
   // No options or no filters means revalidate on all invalidations
-  if (!options) return true
+  if (!options || event.truncated) return true
 
   const hasFilters =
     (options.keys && options.keys.length > 0) ||
@@ -25,9 +25,12 @@ function matchesFilter(
   // If no filters specified, revalidate on all invalidations
   if (!hasFilters) return true
 
-  // Check keys
-  if (options.keys && options.keys.length > 0 && event.key) {
-    if (options.keys.includes(event.key)) {
+  // Check keys (support both event.key and event.keys array)
+  if (options.keys && options.keys.length > 0) {
+    if (event.key && options.keys.includes(event.key)) {
+      return true
+    }
+    if (event.keys && event.keys.some((key) => options.keys!.includes(key))) {
       return true
     }
   }
@@ -57,26 +60,25 @@ function matchesFilter(
 export function useCache(options?: UseCacheOptions) {
   const { invalidations } = useCacheContext()
   const revalidator = useRevalidator()
+  // Events before this index were checked already; history from before
+  // mount doesn't trigger a revalidation
+  const processed = useRef(invalidations.length)
+  const timeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
 
   useEffect(() => {
-    if (invalidations.length === 0) return undefined
-
-    const latestInvalidation = invalidations[invalidations.length - 1]
-    if (!latestInvalidation) return undefined
-
-    // Check if we should revalidate
-    const shouldRevalidate = matchesFilter(latestInvalidation, options)
-
-    if (shouldRevalidate) {
-      const debounceMs = options?.debounce ?? 100
-
-      const timeout = setTimeout(() => {
-        revalidator.revalidate()
-      }, debounceMs)
-
-      return () => clearTimeout(timeout)
-    }
-
-    return undefined
+    // A polled page adds several events at once, so check all new ones
+    const added = invalidations.slice(processed.current)
+    processed.current = invalidations.length
+
+    if (!added.some((event) => matchesFilter(event, options))) return
+
+    // A later match restarts the debounce; one that didn't match leaves
+    // the pending revalidation alone
+    clearTimeout(timeout.current)
+    timeout.current = setTimeout(() => {
+      revalidator.revalidate()
+    }, options?.debounce ?? 100)
   }, [invalidations, revalidator, options])
+
+  useEffect(() => () => clearTimeout(timeout.current), [])
 }
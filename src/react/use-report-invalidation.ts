@@ -0,0 +1,45 @@
+import { useCallback, useEffect } from 'react'
+import { useCacheContext } from './context.js'
+import {
+  INVALIDATION_HEADER,
+  decodeInvalidationHeader,
+  readInvalidationData,
+} from '../utils/invalidation-header.js'
+
+/**
+ * Returns a function that reads the `X-Cache-Invalidate` header
+ * `withInvalidation` sets on action responses, so this tab revalidates
+ * without waiting for the same invalidation over SSE or polling:
+ *
+ *   const reportInvalidation = useReportInvalidation()
+ *   reportInvalidation(await fetch('/posts/1', { method: 'POST', body }))
+ */
+export function useReportInvalidation(): (response: Response) => void {
+  const { report } = useCacheContext()
+
+  return useCallback(
+    (response: Response) => {
+      const header = response.headers.get(INVALIDATION_HEADER)
+      const event = header ? decodeInvalidationHeader(header) : undefined
+      if (event) report(event)
+    },
+    [report]
+  )
+}
+
+/**
+ * Reports the invalidations `withInvalidation` adds to object action data,
+ * for submissions through `<Form>` or `useFetcher`, which never expose the
+ * Response. Each new `data` is reported once:
+ *
+ *   const fetcher = useFetcher<typeof action>()
+ *   useActionInvalidation(fetcher.data)
+ */
+export function useActionInvalidation(data: unknown): void {
+  const { report } = useCacheContext()
+
+  useEffect(() => {
+    const event = readInvalidationData(data)
+    if (event) report(event)
+  }, [data, report])
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { CacheUnavailableError } from '../errors.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('getMany', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function setup(mode: 'server' | 'serverless' = 'server') {
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, mode })
+  }
+
+  it('should read local, then store, then fetchMany for misses', async () => {
+    setup()
+    const fetchMany = vi.fn(async (argsList: string[][]) =>
+      argsList.map(([id]) => (id === '4' ? null : `product-${id}`))
+    )
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetchMany,
+    })
+
+    await productCache.set('1', 'local-1')
+    await store.set(
+      'remix-cache:product:2',
+      JSON.stringify({ json: 'redis-2' })
+    )
+    const mget = vi.spyOn(store, 'mget')
+    const hits = vi.fn()
+    const misses = vi.fn()
+    cache.on('hit', hits)
+    cache.on('miss', misses)
+
+    const values = await productCache.getMany([['1'], ['2'], ['3'], ['4']])
+
+    expect(values).toEqual(['local-1', 'redis-2', 'product-3', null])
+    expect(mget).toHaveBeenCalledTimes(1)
+    expect(mget).toHaveBeenCalledWith([
+      'remix-cache:product:2',
+      'remix-cache:product:3',
+      'remix-cache:product:4',
+    ])
+    expect(fetchMany).toHaveBeenCalledWith([['3'], ['4']])
+    expect(hits.mock.calls.map(([event]) => event.source)).toEqual([
+      'local',
+      'redis',
+    ])
+    expect(misses).toHaveBeenCalledTimes(2)
+
+    // Fetched values were written back
+    expect(await productCache.getMany([['3']])).toEqual(['product-3'])
+    expect(fetchMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fall back to fetch per miss', async () => {
+    setup()
+    const fetchFn = vi.fn(async (id: string) => `product-${id}`)
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+
+    expect(await productCache.getMany([['1'], ['2']])).toEqual([
+      'product-1',
+      'product-2',
+    ])
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep the other entries when one fetch fails', async () => {
+    setup()
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: async (id: string) => {
+        if (id === 'bad') throw new Error('db down')
+        return `product-${id}`
+      },
+    })
+    const errors = vi.fn()
+    cache.on('error', errors)
+
+    expect(await productCache.getMany([['1'], ['bad'], ['2']])).toEqual([
+      'product-1',
+      null,
+      'product-2',
+    ])
+    expect(errors).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'fetch',
+        key: 'remix-cache:product:bad',
+      })
+    )
+    expect(await store.get('remix-cache:product:2')).not.toBeNull()
+  })
+
+  it('should fetch misses when the store is down', async () => {
+    setup()
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: async (id: string) => `product-${id}`,
+    })
+    vi.spyOn(store, 'mget').mockRejectedValue(new Error('connection refused'))
+    vi.spyOn(store, 'batch').mockImplementation(() => {
+      throw new Error('connection refused')
+    })
+    const errors = vi.fn()
+    cache.on('error', errors)
+
+    expect(await productCache.getMany([['1'], ['2']])).toEqual([
+      'product-1',
+      'product-2',
+    ])
+    expect(errors).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'set' })
+    )
+  })
+
+  it('should apply the throw and stale strategies when the store is down', async () => {
+    store = new MemoryStore()
+    cache = createMemoryCache({
+      store,
+      local: { enabled: false },
+      onError: { strategy: 'throw' },
+    })
+    const fetchFn = vi.fn(async (id: string) => `product-${id}`)
+    const strictCache = cache.define({
+      name: 'strict',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+    const staleCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      onError: 'stale',
+    })
+    await staleCache.set('1', 'last-known-1')
+    vi.spyOn(store, 'mget').mockRejectedValue(new Error('connection refused'))
+
+    await expect(strictCache.getMany([['1']])).rejects.toBeInstanceOf(
+      CacheUnavailableError
+    )
+    expect(fetchFn).not.toHaveBeenCalled()
+
+    expect(await staleCache.getMany([['1'], ['2']])).toEqual([
+      'last-known-1',
+      'product-2',
+    ])
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should unwrap stale-while-revalidate values', async () => {
+    setup()
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      ttl: 60,
+      staleWhileRevalidate: 60,
+    })
+
+    await productCache.set('1', 'one')
+    await store.set(
+      'remix-cache:product:2',
+      JSON.stringify({
+        json: { data: 'two', expiresAt: Date.now() + 60000 },
+      })
+    )
+
+    expect(await productCache.getMany([['1'], ['2']])).toEqual(['one', 'two'])
+  })
+
+  it('should read versioned keys in serverless mode', async () => {
+    setup('serverless')
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetchMany: async (argsList: string[][]) =>
+        argsList.map(([id]) => `fetched-${id}`),
+    })
+
+    await productCache.set('1', 'one')
+    await productCache.invalidate('2')
+
+    expect(await productCache.getMany([['1'], ['2']])).toEqual([
+      'one',
+      'fetched-2',
+    ])
+    expect(await productCache.get('2')).toBe('fetched-2')
+  })
+})
+
+describe('setMany and warm', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function setup(mode: 'server' | 'serverless' = 'server') {
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, mode, local: { enabled: false } })
+  }
+
+  it('should write values and indexes in one batch', async () => {
+    setup()
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      tags: (id: string) => ['products', `product:${id}`],
+      ttl: 60,
+      staleWhileRevalidate: 30,
+    })
+    const batch = vi.spyOn(store, 'batch')
+
+    await productCache.setMany([
+      { args: ['1'], value: 'one' },
+      { args: ['2'], value: 'two' },
+    ])
+
+    expect(batch).toHaveBeenCalledTimes(1)
+    expect((await store.smembers('remix-cache:tag:products')).sort()).toEqual([
+      'remix-cache:product:1',
+      'remix-cache:product:2',
+    ])
+    expect(await store.smembers('remix-cache:pattern:product')).toHaveLength(2)
+    expect(await productCache.get('1')).toBe('one')
+  })
+
+  it('should write versioned keys in serverless mode', async () => {
+    setup('serverless')
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+    })
+
+    await productCache.invalidate('1')
+    await productCache.setMany([{ args: ['1'], value: 'one' }])
+
+    expect(await store.get('remix-cache:remix-cache:product:1:v1')).not.toBe(
+      null
+    )
+    expect(await productCache.get('1')).toBe('one')
+  })
+
+  it('should limit fetch concurrency and report results', async () => {
+    setup()
+    let inFlight = 0
+    let maxInFlight = 0
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: async (id: string) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        if (id === 'bad') throw new Error('db down')
+        return id === 'none' ? null : `product-${id}`
+      },
+    })
+    const onProgress = vi.fn()
+
+    const result = await productCache.warm(
+      [['1'], ['2'], ['3'], ['bad'], ['none'], { args: ['4'], value: 'four' }],
+      { concurrency: 2, chunkSize: 3, onProgress }
+    )
+
+    expect(maxInFlight).toBe(2)
+    expect(result).toMatchObject({
+      total: 6,
+      succeeded: 4,
+      failed: 1,
+      skipped: 1,
+    })
+    expect(result.errors).toEqual([
+      { args: ['bad'], error: new Error('db down') },
+    ])
+    expect(onProgress).toHaveBeenCalledTimes(2)
+    expect(onProgress).toHaveBeenLastCalledWith({
+      total: 6,
+      succeeded: 4,
+      failed: 1,
+      skipped: 1,
+    })
+    expect(await productCache.get('4')).toBe('four')
+  })
+})
@@ -0,0 +1,132 @@
+// @vitest-environment node
+// Cookie and Set-Cookie are forbidden headers in the DOM environment
+import { describe, it, expect, vi } from 'vitest'
+import { cachedLoader } from '../cached-loader.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+function loaderArgs(url: string, headers: Record<string, string> = {}) {
+  return {
+    request: new Request(`http://localhost${url}`, { headers }),
+    params: { id: url.split('/').pop() },
+  }
+}
+
+describe('cachedLoader', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+
+  function setup() {
+    cache = createMemoryCache()
+  }
+
+  it('should cache the loader result, including superjson types', async () => {
+    setup()
+    const loader = vi.fn(async ({ params }: ReturnType<typeof loaderArgs>) => ({
+      id: params.id,
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    }))
+    const cached = cachedLoader(
+      cache,
+      { key: ({ params }) => `product:${params.id}`, ttl: 60 },
+      loader
+    )
+
+    await cached(loaderArgs('/products/1'))
+    const result = await cached(loaderArgs('/products/1'))
+
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(result.updatedAt).toBeInstanceOf(Date)
+    expect(result.id).toBe('1')
+  })
+
+  it('should replay cached Responses', async () => {
+    setup()
+    const loader = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ ok: true }), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+    )
+    const cached = cachedLoader(cache, { key: () => 'home' }, loader)
+
+    await cached(loaderArgs('/'))
+    const response = await cached(loaderArgs('/'))
+
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    expect(await response.json()).toEqual({ ok: true })
+  })
+
+  it('should not cache failed or cookie-setting Responses', async () => {
+    setup()
+    const loader = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(new Response('missing', { status: 404 }))
+      .mockResolvedValueOnce(
+        new Response('hi', { headers: { 'Set-Cookie': 'session=abc' } })
+      )
+      .mockResolvedValue(new Response('hi'))
+    const cached = cachedLoader(cache, { key: () => 'page' }, loader)
+
+    expect((await cached(loaderArgs('/'))).status).toBe(404)
+    await cached(loaderArgs('/'))
+    await cached(loaderArgs('/'))
+    await cached(loaderArgs('/'))
+
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+
+  it('should vary on headers and cookies', async () => {
+    setup()
+    const loader = vi.fn(async ({ request }: ReturnType<typeof loaderArgs>) =>
+      request.headers.get('Accept-Language')
+    )
+    const cached = cachedLoader(
+      cache,
+      {
+        key: () => 'home',
+        vary: { headers: ['Accept-Language'], cookies: ['theme'] },
+      },
+      loader
+    )
+
+    const en = { 'Accept-Language': 'en', Cookie: 'theme=dark; other=1' }
+    expect(await cached(loaderArgs('/', en))).toBe('en')
+    expect(await cached(loaderArgs('/', { 'Accept-Language': 'fr' }))).toBe(
+      'fr'
+    )
+    // Cookies not listed in `vary` don't split the cache
+    expect(
+      await cached(loaderArgs('/', { ...en, Cookie: 'theme=dark; other=2' }))
+    ).toBe('en')
+    await cached(loaderArgs('/', { ...en, Cookie: 'theme=light' }))
+
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+
+  it('should be invalidated by tag and pattern', async () => {
+    setup()
+    const loader = vi.fn(async ({ params }: ReturnType<typeof loaderArgs>) => ({
+      id: params.id,
+    }))
+    const cached = cachedLoader(
+      cache,
+      {
+        name: 'product-page',
+        key: ({ params }) => params.id!,
+        tags: ({ params }) => ['products', `product:${params.id}`],
+      },
+      loader
+    )
+
+    await cached(loaderArgs('/products/1'))
+    await cache.invalidateTag('product:1')
+    await cached(loaderArgs('/products/1'))
+    expect(loader).toHaveBeenCalledTimes(2)
+
+    await cache.invalidatePattern('product-page:*')
+    await cached(loaderArgs('/products/1'))
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+})
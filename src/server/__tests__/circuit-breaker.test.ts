@@ -104,4 +104,45 @@ describe('CircuitBreaker', () => {
 
     expect(cb.getState()).toBe('closed')
   })
+
+  it('should report every state transition', async () => {
+    const cb = new CircuitBreaker(1, 50, 1)
+    const onTransition = vi.fn()
+    cb.setTransitionHandler(onTransition)
+
+    const fail = async () => {
+      throw new Error('failure')
+    }
+    const fallback = async () => 'fallback'
+
+    await cb.execute(fail, fallback)
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    await cb.execute(fail, fallback)
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    await cb.execute(async () => 'success', fallback)
+
+    expect(onTransition.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['open', 'half-open'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ])
+  })
+
+  it('should expose failures and next attempt time', async () => {
+    const cb = new CircuitBreaker(2, 1000, 1)
+    const fail = async () => {
+      throw new Error('failure')
+    }
+    const fallback = async () => 'fallback'
+
+    await cb.execute(fail, fallback)
+    expect(cb.getFailures()).toBe(1)
+    expect(cb.getNextAttempt()).toBeNull()
+
+    const before = Date.now()
+    await cb.execute(fail, fallback)
+    expect(cb.getNextAttempt()).toBeGreaterThanOrEqual(before + 1000)
+  })
 })
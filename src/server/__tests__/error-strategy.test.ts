@@ -0,0 +1,208 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createCache } from '../cache.js'
+import { MemoryStore } from '../memory-store.js'
+import { CacheUnavailableError } from '../errors.js'
+import type { Cache, CacheConfig } from '../../types/cache.js'
+
+describe('Error strategies', () => {
+  let cache: Cache
+  let store: MemoryStore
+
+  function setup(config: Partial<CacheConfig> = {}) {
+    store = new MemoryStore()
+    cache = createCache({
+      store,
+      mode: 'server',
+      local: { enabled: false },
+      ...config,
+    })
+  }
+
+  function failReadsOf(key: string) {
+    const get = store.get.bind(store)
+    vi.spyOn(store, 'get').mockImplementation(async (k) => {
+      if (k === key) throw new Error('connection refused')
+      return get(k)
+    })
+  }
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await cache.close()
+  })
+
+  it('should fall back to fetch by default', async () => {
+    setup()
+    const fetchFn = vi.fn(async (id: string) => `user-${id}`)
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+
+    failReadsOf('remix-cache:user:1')
+
+    expect(await userCache.get('1')).toBe('user-1')
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should throw CacheUnavailableError with the throw strategy', async () => {
+    setup({ onError: { strategy: 'throw' } })
+    const fetchFn = vi.fn(async (id: string) => `user-${id}`)
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+
+    failReadsOf('remix-cache:user:1')
+
+    const error = await userCache.get('1').catch((e) => e)
+    expect(error).toBeInstanceOf(CacheUnavailableError)
+    expect(error.key).toBe('remix-cache:user:1')
+    expect(error.cause).toEqual(new Error('connection refused'))
+    expect(fetchFn).not.toHaveBeenCalled()
+  })
+
+  it('should rethrow fetch errors unchanged with the throw strategy', async () => {
+    setup({ onError: { strategy: 'throw' } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: async () => {
+        throw new Error('db down')
+      },
+    })
+
+    await expect(userCache.get('1')).rejects.toThrow('db down')
+  })
+
+  it('should serve the shadow copy when the store fails', async () => {
+    setup({ onError: { strategy: 'stale' } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      ttl: 60,
+    })
+
+    await userCache.set('1', 'Alice')
+    expect(await store.get('remix-cache:shadow:remix-cache:user:1')).not.toBe(
+      null
+    )
+
+    failReadsOf('remix-cache:user:1')
+
+    expect(await userCache.get('1')).toBe('Alice')
+  })
+
+  it('should serve the last known value when fetch fails', async () => {
+    setup({ onError: { strategy: 'stale' } })
+    const fetchFn = vi
+      .fn<(id: string) => Promise<string>>()
+      .mockResolvedValueOnce('Alice')
+      .mockRejectedValue(new Error('db down'))
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+
+    expect(await userCache.get('1')).toBe('Alice')
+    await store.del(['remix-cache:user:1'])
+
+    expect(await userCache.get('1')).toBe('Alice')
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should serve expired local values with the stale strategy', async () => {
+    setup({ onError: { strategy: 'stale' }, local: { enabled: true } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      ttl: 1,
+      fetch: async () => {
+        throw new Error('db down')
+      },
+    })
+
+    await userCache.set('1', 'Alice')
+    await store.del(['remix-cache:shadow:remix-cache:user:1'])
+    await new Promise((resolve) => setTimeout(resolve, 1100))
+
+    expect(await userCache.get('1')).toBe('Alice')
+  })
+
+  it('should let a definition override the cache strategy', async () => {
+    setup({ onError: { strategy: 'fallback' } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: async (id: string) => `user-${id}`,
+      onError: 'throw',
+    })
+
+    failReadsOf('remix-cache:user:1')
+
+    await expect(userCache.get('1')).rejects.toBeInstanceOf(
+      CacheUnavailableError
+    )
+  })
+
+  it('should apply the strategy in serverless mode', async () => {
+    setup({ mode: 'serverless', onError: { strategy: 'throw' } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+    })
+
+    failReadsOf('remix-cache:version:remix-cache:user:1')
+
+    await expect(userCache.get('1')).rejects.toBeInstanceOf(
+      CacheUnavailableError
+    )
+  })
+})
+
+describe('Circuit breaker events', () => {
+  let cache: Cache
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await cache.close()
+  })
+
+  it('should emit circuitOpen and report health', async () => {
+    const store = new MemoryStore()
+    cache = createCache({
+      store,
+      mode: 'server',
+      local: { enabled: false },
+      onError: { circuitBreaker: { threshold: 2, timeout: 1000 } },
+    })
+    const onOpen = vi.fn()
+    cache.on('circuitOpen', onOpen)
+
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+    })
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('connection refused'))
+
+    expect(cache.getHealth().circuit.state).toBe('closed')
+
+    await userCache.get('1')
+    await userCache.get('1')
+
+    expect(onOpen).toHaveBeenCalledTimes(1)
+    expect(onOpen.mock.calls[0]![0]).toMatchObject({
+      state: 'open',
+      previousState: 'closed',
+      failures: 2,
+    })
+
+    const health = cache.getHealth()
+    expect(health.circuit.state).toBe('open')
+    expect(health.circuit.failures).toBe(2)
+    expect(health.circuit.nextRetryAt).toBeGreaterThan(Date.now())
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('getWithMeta', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(mode: 'server' | 'serverless' = 'server') {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, mode })
+    return cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: async (id: string) => `product-${id}`,
+      tags: (id: string) => ['products', `product:${id}`],
+      ttl: 60,
+    })
+  }
+
+  it('should describe fetched, local and store reads', async () => {
+    const productCache = setup()
+    const start = Date.now()
+
+    expect(await productCache.getWithMeta('1')).toEqual({
+      data: 'product-1',
+      source: 'fetch',
+      storedAt: start,
+      expiresAt: start + 60_000,
+      staleUntil: start + 60_000,
+      isStale: false,
+      ttlRemaining: 60,
+      tags: ['products', 'product:1'],
+    })
+
+    vi.setSystemTime(start + 15_000)
+    expect(await productCache.getWithMeta('1')).toMatchObject({
+      source: 'local',
+      storedAt: start,
+      ttlRemaining: 45,
+    })
+
+    // Another instance without a local cache reads from the store
+    const fresh = createMemoryCache({ store, local: { enabled: false } })
+    const storeRead = await fresh
+      .define({
+        name: 'product',
+        key: (id: string) => id,
+        ttl: 60,
+      })
+      .getWithMeta('1')
+    expect(storeRead).toMatchObject({
+      data: 'product-1',
+      source: 'redis',
+      storedAt: start,
+      isStale: false,
+    })
+  })
+
+  it('should store the metadata envelope without staleWhileRevalidate', async () => {
+    const productCache = setup()
+    await productCache.set('1', 'one')
+
+    const raw = JSON.parse((await store.get('remix-cache:product:1'))!)
+    expect(raw.json).toMatchObject({
+      data: 'one',
+      storedAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    })
+    expect(await productCache.get('1')).toBe('one')
+  })
+
+  it('should treat values past their TTL as misses', async () => {
+    const productCache = setup()
+    await productCache.set('1', 'one')
+
+    vi.setSystemTime(Date.now() + 61_000)
+    expect(await productCache.getWithMeta('1')).toMatchObject({
+      data: 'product-1',
+      source: 'fetch',
+    })
+  })
+
+  it('should report not-found entries', async () => {
+    setup()
+    const emptyCache = cache.define({
+      name: 'empty',
+      key: (id: string) => id,
+    })
+
+    expect(await emptyCache.getWithMeta('1')).toEqual({
+      data: null,
+      source: 'fetch',
+      storedAt: null,
+      expiresAt: null,
+      staleUntil: null,
+      isStale: false,
+      ttlRemaining: null,
+      tags: [],
+    })
+  })
+
+  it('should work in serverless mode', async () => {
+    const productCache = setup('serverless')
+    await productCache.get('1')
+
+    expect(await productCache.getWithMeta('1')).toMatchObject({
+      data: 'product-1',
+      source: 'redis',
+      storedAt: Date.now(),
+      ttlRemaining: 60,
+    })
+  })
+})
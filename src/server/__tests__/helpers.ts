@@ -0,0 +1,37 @@
+import { afterEach } from 'vitest'
+import { createCache } from '../cache.js'
+import { MemoryStore } from '../memory-store.js'
+import type { Cache } from '../../types/cache.js'
+import type { CacheConfig } from '../../types/config.js'
+
+export type MemoryCacheConfig = Omit<CacheConfig, 'redis' | 'store'> & {
+  store?: MemoryStore
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Call inside a describe block. Returns a factory for server-mode caches
+ * over a fresh MemoryStore (or the given one), and closes every cache it
+ * made after each test.
+ */
+export function setupMemoryCaches() {
+  const caches: Cache[] = []
+
+  afterEach(async () => {
+    await Promise.all(caches.map((cache) => cache.close()))
+    caches.length = 0
+  })
+
+  return function createMemoryCache(config: MemoryCacheConfig = {}) {
+    const cache = createCache({
+      mode: 'server',
+      ...config,
+      store: config.store ?? new MemoryStore(),
+    })
+    caches.push(cache)
+    return cache
+  }
+}
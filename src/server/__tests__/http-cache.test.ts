@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { cacheHeaders, cachedJson } from '../http-cache.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { CacheResult } from '../../types/cache.js'
+
+const NOW = new Date('2024-01-01T00:00:00Z').getTime()
+
+function meta(overrides: Partial<CacheResult<unknown>> = {}) {
+  return {
+    data: { id: '1', name: 'Widget' },
+    source: 'redis',
+    storedAt: NOW - 30_000,
+    expiresAt: NOW + 30_000,
+    staleUntil: NOW + 30_000,
+    isStale: false,
+    ttlRemaining: 30,
+    tags: [],
+    ...overrides,
+  } satisfies CacheResult<unknown>
+}
+
+describe('HTTP cache headers', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function freezeTime() {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+  }
+
+  it('should derive Cache-Control, Age and Last-Modified', () => {
+    freezeTime()
+    const headers = cacheHeaders(meta())
+
+    expect(headers.get('Cache-Control')).toBe('public, max-age=60')
+    expect(headers.get('Age')).toBe('30')
+    expect(headers.get('Last-Modified')).toBe(
+      new Date(NOW - 30_000).toUTCString()
+    )
+    expect(headers.get('ETag')).toMatch(/^"[\w-]+"$/)
+  })
+
+  it('should add stale-while-revalidate and honor visibility', () => {
+    const headers = cacheHeaders(meta({ staleUntil: NOW + 150_000 }), {
+      visibility: 'private',
+    })
+
+    expect(headers.get('Cache-Control')).toBe(
+      'private, max-age=60, stale-while-revalidate=120'
+    )
+  })
+
+  it('should require revalidation without a fixed TTL', () => {
+    const headers = cacheHeaders(
+      meta({ expiresAt: null, staleUntil: null, ttlRemaining: null })
+    )
+    expect(headers.get('Cache-Control')).toBe('public, no-cache')
+  })
+
+  it('should not cache missing values', () => {
+    const headers = cacheHeaders(
+      meta({ data: null, storedAt: null, expiresAt: null, staleUntil: null })
+    )
+    expect(headers.get('Cache-Control')).toBe('no-store')
+    expect(headers.get('Last-Modified')).toBeNull()
+  })
+
+  it('should hash the content into the ETag', () => {
+    const a = cacheHeaders(meta()).get('ETag')
+    const b = cacheHeaders(meta({ storedAt: NOW })).get('ETag')
+    const c = cacheHeaders(meta({ data: { id: '2' } })).get('ETag')
+
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+
+  it('should hash values JSON drops, like Map and Set', () => {
+    const a = cacheHeaders(meta({ data: new Map([['a', 1]]) })).get('ETag')
+    const b = cacheHeaders(meta({ data: new Map([['a', 2]]) })).get('ETag')
+    const c = cacheHeaders(meta({ data: new Set([1]) }), {
+      serializer: 'json',
+    }).get('ETag')
+    const d = cacheHeaders(meta({ data: new Set([2]) }), {
+      serializer: 'json',
+    }).get('ETag')
+
+    expect(a).not.toBe(b)
+    expect(c).toBe(d)
+  })
+})
+
+describe('cachedJson', () => {
+  const createMemoryCache = setupMemoryCaches()
+
+  it('should return JSON with caching headers', async () => {
+    const request = new Request('http://localhost/products/1')
+    const response = cachedJson(
+      { product: meta().data },
+      { cache: meta(), request, headers: { 'X-Custom': 'yes' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('application/json')
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60')
+    expect(response.headers.get('X-Custom')).toBe('yes')
+    expect(await response.json()).toEqual({ product: meta().data })
+  })
+
+  it('should answer a matching If-None-Match with 304', async () => {
+    const first = cachedJson(meta().data, {
+      cache: meta(),
+      request: new Request('http://localhost/products/1'),
+    })
+    const etag = first.headers.get('ETag')!
+
+    const second = cachedJson(meta().data, {
+      cache: meta(),
+      request: new Request('http://localhost/products/1', {
+        headers: { 'If-None-Match': `"other", W/${etag}` },
+      }),
+    })
+
+    expect(second.status).toBe(304)
+    expect(second.headers.get('ETag')).toBe(etag)
+    expect(await second.text()).toBe('')
+  })
+
+  it('should build responses from getWithMeta', async () => {
+    const cache = createMemoryCache()
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: async (id: string) => ({ id }),
+      ttl: 60,
+      staleWhileRevalidate: 30,
+    })
+
+    const result = await productCache.getWithMeta('1')
+    const response = cachedJson(result.data, {
+      cache: result,
+      request: new Request('http://localhost/products/1'),
+    })
+
+    expect(response.headers.get('Cache-Control')).toBe(
+      'public, max-age=60, stale-while-revalidate=30'
+    )
+    expect(response.headers.get('Age')).toBe('0')
+  })
+})
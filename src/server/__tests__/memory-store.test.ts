@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { createCache } from '../cache.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('MemoryStore', () => {
+  let store: MemoryStore
+
+  beforeEach(() => {
+    store = new MemoryStore()
+  })
+
+  it('should set and get string values', async () => {
+    await store.set('a', '1')
+    expect(await store.get('a')).toBe('1')
+    expect(await store.get('missing')).toBeNull()
+  })
+
+  it('should expire values after their TTL', async () => {
+    vi.useFakeTimers()
+    try {
+      await store.set('a', '1', 1)
+      vi.advanceTimersByTime(1001)
+      expect(await store.get('a')).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should return values in order for mget', async () => {
+    await store.set('a', '1')
+    await store.set('c', '3')
+    expect(await store.mget(['a', 'b', 'c'])).toEqual(['1', null, '3'])
+  })
+
+  it('should count deleted keys', async () => {
+    await store.set('a', '1')
+    await store.sadd('s', ['x'])
+    expect(await store.del(['a', 's', 'missing'])).toBe(2)
+  })
+
+  it('should increment counters', async () => {
+    expect(await store.incr('n')).toBe(1)
+    expect(await store.incr('n')).toBe(2)
+    expect(await store.get('n')).toBe('2')
+  })
+
+  it('should set only absent keys and delete only matching values', async () => {
+    expect(await store.setnx('lock', 'a', 1000)).toBe(true)
+    expect(await store.setnx('lock', 'b', 1000)).toBe(false)
+    expect(await store.delIfEquals('lock', 'b')).toBe(false)
+    expect(await store.delIfEquals('lock', 'a')).toBe(true)
+    expect(await store.get('lock')).toBeNull()
+  })
+
+  it('should manage set members', async () => {
+    await store.sadd('s', ['a', 'b'])
+    await store.sadd('s', ['b', 'c'])
+    await store.srem('s', ['a'])
+    expect((await store.smembers('s')).sort()).toEqual(['b', 'c'])
+  })
+
+  it('should only extend set TTLs with saddExtend', async () => {
+    vi.useFakeTimers()
+    try {
+      await store.saddExtend('s', ['a'], 10)
+      await store.saddExtend('s', ['b'], 2)
+      vi.advanceTimersByTime(5000)
+      expect((await store.smembers('s')).sort()).toEqual(['a', 'b'])
+
+      vi.advanceTimersByTime(5001)
+      expect(await store.smembers('s')).toEqual([])
+
+      await store.saddExtend('p', ['a'], 1)
+      await store.saddExtend('p', ['b'])
+      vi.advanceTimersByTime(2000)
+      expect(await store.smembers('p')).toHaveLength(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should scan keys and set members in batches', async () => {
+    await store.set('app:tag:a', '1')
+    await store.set('app:tag:b', '1')
+    await store.set('app:other', '1')
+    await store.sadd('s', ['1', '2', '3'])
+
+    const keys: string[][] = []
+    for await (const batch of store.scan('app:tag:*', 1)) keys.push(batch)
+    expect(keys).toEqual([['app:tag:a'], ['app:tag:b']])
+
+    const members: string[][] = []
+    for await (const batch of store.sscan('s', 2)) members.push(batch)
+    expect(members.flat().sort()).toEqual(['1', '2', '3'])
+    expect(members).toHaveLength(2)
+
+    expect(await store.exists(['app:other', 's', 'missing'])).toEqual([
+      true,
+      true,
+      false,
+    ])
+  })
+
+  it('should scan with Redis glob classes and escapes', async () => {
+    for (const key of ['k:1', 'k:2', 'k:3', 'k:*']) {
+      await store.set(key, 'v')
+    }
+
+    const scanned = async (match: string) => {
+      const keys: string[] = []
+      for await (const batch of store.scan(match, 10)) keys.push(...batch)
+      return keys.sort()
+    }
+
+    expect(await scanned('k:[12]')).toEqual(['k:1', 'k:2'])
+    expect(await scanned('k:[!12]')).toEqual(['k:*', 'k:3'])
+    expect(await scanned('k:\\*')).toEqual(['k:*'])
+  })
+
+  it('should invalidate entries with their tag index entries', async () => {
+    const layout = { keyTagsPrefix: 'kt:', tagPrefix: 'tag:', hashTag: true }
+    await store.set('app:{post}:1', 'one')
+    await store.set('app:{post}:2', 'two')
+    await store.set('kt:app:{post}:1', JSON.stringify(['a', 'b']))
+    await store.sadd('tag:a:{post}', ['app:{post}:1', 'app:{post}:2'])
+    await store.sadd('tag:b:{post}', ['app:{post}:1'])
+
+    expect(
+      await store.invalidateMembers('tag:a:{post}', {
+        layout,
+        match: '*:1',
+      })
+    ).toEqual(['app:{post}:1'])
+    expect(await store.smembers('tag:a:{post}')).toEqual(['app:{post}:2'])
+    expect(await store.smembers('tag:b:{post}')).toEqual([])
+    expect(await store.exists(['app:{post}:1', 'kt:app:{post}:1'])).toEqual([
+      false,
+      false,
+    ])
+
+    await store.invalidateKeys(['app:{post}:2'], {
+      ...layout,
+      versionPrefix: 'v:',
+      versionTTL: 60,
+    })
+    expect(await store.get('app:{post}:2')).toBe('two')
+    expect(await store.get('v:app:{post}:2')).toBe('1')
+  })
+
+  it('should take all members of a set', async () => {
+    await store.sadd('s', ['a', 'b'])
+    expect((await store.takeMembers('s')).sort()).toEqual(['a', 'b'])
+    expect(await store.exists(['s'])).toEqual([false])
+  })
+
+  it('should execute batched writes together', async () => {
+    await store
+      .batch()
+      .set('a', '1')
+      .sadd('s', ['a'])
+      .incr('n')
+      .del(['missing'])
+      .exec()
+
+    expect(await store.get('a')).toBe('1')
+    expect(await store.smembers('s')).toEqual(['a'])
+    expect(await store.get('n')).toBe('1')
+  })
+
+  it('should deliver messages to subscribers until unsubscribed', async () => {
+    const handler = vi.fn()
+    const unsubscribe = await store.subscribe(['chan'], handler)
+
+    await store.publish('chan', 'hello')
+    await store.publish('other', 'ignored')
+    await unsubscribe()
+    await store.publish('chan', 'after')
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith('chan', 'hello')
+  })
+})
+
+describe('Cache with MemoryStore', () => {
+  let cache: Cache
+
+  afterEach(async () => {
+    await cache.close()
+  })
+
+  it('should fetch, cache and invalidate without Redis', async () => {
+    cache = createCache({ store: new MemoryStore(), mode: 'server' })
+
+    const fetchFn = vi.fn(async (id: string) => ({ id }))
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      ttl: 60,
+    })
+
+    expect(await userCache.get('1')).toEqual({ id: '1' })
+    expect(await userCache.get('1')).toEqual({ id: '1' })
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+
+    await userCache.invalidate('1')
+    await userCache.get('1')
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should invalidate by tag and pattern', async () => {
+    const store = new MemoryStore()
+    cache = createCache({
+      store,
+      mode: 'server',
+      local: { enabled: false },
+    })
+
+    const postCache = cache.define({
+      name: 'post',
+      key: (id: string) => id,
+      tags: (id: string) => ['posts', `post:${id}`],
+    })
+
+    await postCache.setMany([
+      { args: ['1'], value: 'one' },
+      { args: ['2'], value: 'two' },
+    ])
+
+    await cache.invalidateTag('post:1')
+    expect(await postCache.get('1')).toBeNull()
+    expect(await postCache.get('2')).toBe('two')
+
+    await cache.invalidatePattern('post:*')
+    expect(await postCache.get('2')).toBeNull()
+    expect(await store.smembers('remix-cache:tag:post:1')).toEqual([])
+  })
+
+  it('should use versioned keys in serverless mode', async () => {
+    cache = createCache({ store: new MemoryStore(), mode: 'serverless' })
+
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      tags: () => ['users'],
+    })
+
+    await userCache.set('1', 'Alice')
+    expect(await userCache.get('1')).toBe('Alice')
+
+    await cache.invalidateTag('users')
+    expect(await userCache.get('1')).toBeNull()
+  })
+
+  it('should co-locate keys and indexes with the hash-tag layout', async () => {
+    const store = new MemoryStore()
+    cache = createCache({
+      store,
+      mode: 'server',
+      keyLayout: 'hash-tag',
+      local: { enabled: false },
+    })
+
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+      tags: (id: string) => ['users', `user:${id}`],
+    })
+
+    await userCache.set('1', 'Alice')
+    await userCache.set('2', 'Bob')
+
+    expect(await store.get('remix-cache:{user}:1')).not.toBeNull()
+    expect(
+      (await store.smembers('remix-cache:tag:users:{user}')).sort()
+    ).toEqual(['remix-cache:{user}:1', 'remix-cache:{user}:2'])
+    expect(await store.smembers('remix-cache:pattern:{user}')).toHaveLength(2)
+
+    await cache.invalidateTag('user:1')
+    expect(await userCache.get('1')).toBeNull()
+    expect(await userCache.get('2')).toBe('Bob')
+    expect(await store.smembers('remix-cache:tag-names:user:1')).toEqual([])
+
+    await cache.invalidatePattern('user:*')
+    expect(await userCache.get('2')).toBeNull()
+  })
+
+  it('should require redis or store', () => {
+    expect(() => createCache({})).toThrow('createCache requires')
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { PatternMatcher } from '../pattern-matcher.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('Pattern invalidation', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+
+  function setup(keyLayout?: 'hash-tag') {
+    const store = new MemoryStore()
+    cache = createMemoryCache({ store, keyLayout, local: { enabled: false } })
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string, section: string) => `${id}:${section}`,
+      ttl: 60,
+    })
+    const adminCache = cache.define({
+      name: 'admin:user',
+      key: (id: string) => id,
+      ttl: 60,
+    })
+    return { store, userCache, adminCache }
+  }
+
+  it('should match wildcards across segments', async () => {
+    const { userCache } = setup()
+    await userCache.set('1', 'posts', 'a')
+    await userCache.set('1', 'profile', 'b')
+    await userCache.set('2', 'posts', 'c')
+
+    await cache.invalidatePattern('user:*:posts')
+    expect(await userCache.get('1', 'posts')).toBeNull()
+    expect(await userCache.get('2', 'posts')).toBeNull()
+    expect(await userCache.get('1', 'profile')).toBe('b')
+
+    await cache.invalidatePattern('user:*')
+    expect(await userCache.get('1', 'profile')).toBeNull()
+  })
+
+  it('should resolve leading wildcards, ? and classes', async () => {
+    const { userCache, adminCache } = setup('hash-tag')
+    await userCache.set('1', 'posts', 'a')
+    await userCache.set('2', 'posts', 'b')
+    await userCache.set('3', 'posts', 'c')
+    await adminCache.set('1', 'root')
+
+    await cache.invalidatePattern('user:[12]:post?')
+    expect(await userCache.get('1', 'posts')).toBeNull()
+    expect(await userCache.get('2', 'posts')).toBeNull()
+    expect(await userCache.get('3', 'posts')).toBe('c')
+
+    await cache.invalidatePattern('*:1')
+    expect(await adminCache.get('1')).toBeNull()
+    expect(await userCache.get('3', 'posts')).toBe('c')
+  })
+
+  it.each([undefined, 'hash-tag'] as const)(
+    'should find sets tracked before the names registry (keyLayout: %s)',
+    async (keyLayout) => {
+      const { store, userCache, adminCache } = setup(keyLayout)
+      await userCache.set('1', 'posts', 'a')
+      await adminCache.set('1', 'root')
+      await store.del(['remix-cache:pattern-names'])
+
+      await cache.invalidatePattern('*:1*')
+      expect(await userCache.get('1', 'posts')).toBeNull()
+      expect(await adminCache.get('1')).toBeNull()
+      expect(
+        (await store.smembers('remix-cache:pattern-names')).sort()
+      ).toEqual(['admin:user', 'user'])
+    }
+  )
+
+  it('should index definitions whose names contain colons', async () => {
+    const { store, adminCache } = setup('hash-tag')
+    await adminCache.set('1', 'root')
+    await adminCache.set('2', 'staff')
+
+    const matcher = new PatternMatcher(store, 'remix-cache', true)
+    expect((await matcher.getKeysByPattern('admin:user:*')).sort()).toEqual([
+      'remix-cache:{admin:user}:1',
+      'remix-cache:{admin:user}:2',
+    ])
+    expect(await matcher.getKeysByPattern('adm*:user:2')).toEqual([
+      'remix-cache:{admin:user}:2',
+    ])
+
+    await cache.invalidatePattern('admin:user:1')
+    expect(await adminCache.get('1')).toBeNull()
+    expect(await adminCache.get('2')).toBe('staff')
+  })
+})
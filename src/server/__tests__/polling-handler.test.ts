@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createCache } from '../cache.js'
+import { createPollingHandler } from '../polling-handler.js'
+import { MemoryStore } from '../memory-store.js'
+import { InvalidationLog } from '../invalidation-log.js'
+import type { Cache, InvalidationPage } from '../../types/cache.js'
+
+describe('Polling Handler', () => {
+  let cache: Cache
+
+  afterEach(async () => {
+    await cache.close()
+  })
+
+  async function poll(cursor?: string): Promise<InvalidationPage> {
+    const handler = createPollingHandler(cache)
+    const url = cursor
+      ? `http://localhost/api/cache-events?cursor=${cursor}`
+      : 'http://localhost/api/cache-events'
+    const response = await handler({ request: new Request(url) })
+
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    return response.json()
+  }
+
+  it('should return invalidations after the cursor', async () => {
+    cache = createCache({
+      store: new MemoryStore(),
+      mode: 'serverless',
+      revalidation: { transport: 'polling' },
+    })
+
+    const userCache = cache.define({
+      name: 'user',
+      key: (id: string) => id,
+    })
+
+    const initial = await poll()
+    expect(initial.events).toEqual([])
+
+    await userCache.invalidate('1')
+    await userCache.invalidate('2')
+
+    const page = await poll(initial.cursor)
+    expect(page.events.map((event) => event.key)).toEqual([
+      'remix-cache:user:1',
+      'remix-cache:user:2',
+    ])
+
+    const next = await poll(page.cursor)
+    expect(next.events).toEqual([])
+    expect(next.cursor).toBe(page.cursor)
+  })
+
+  it('should share the log between instances', async () => {
+    const store = new MemoryStore()
+    const writer = createCache({
+      store,
+      mode: 'serverless',
+      revalidation: { transport: 'polling' },
+    })
+    cache = createCache({
+      store,
+      mode: 'serverless',
+      revalidation: { transport: 'polling' },
+    })
+
+    const initial = await poll()
+    await writer.invalidateMany(['remix-cache:user:1'])
+
+    const page = await poll(initial.cursor)
+    expect(page.events).toEqual([
+      expect.objectContaining({ keys: ['remix-cache:user:1'] }),
+    ])
+
+    await writer.close()
+  })
+
+  it('should not record invalidations unless polling is enabled', async () => {
+    cache = createCache({ store: new MemoryStore(), mode: 'serverless' })
+
+    const initial = await poll()
+    await cache.invalidateMany(['remix-cache:user:1'])
+
+    expect((await poll(initial.cursor)).events).toEqual([])
+  })
+})
+
+describe('Invalidation log', () => {
+  it('should reset clients whose cursor was trimmed from the log', async () => {
+    const log = new InvalidationLog(new MemoryStore(), 'remix-cache', 2)
+    const initial = await log.read()
+    await log.append({ key: 'a', timestamp: 1 })
+    const seen = await log.read(initial.cursor)
+    expect(seen.reset).toBeUndefined()
+
+    for (const key of ['b', 'c', 'd']) {
+      await log.append({ key, timestamp: 2 })
+    }
+
+    const page = await log.read(seen.cursor)
+    expect(page).toMatchObject({ events: [], reset: true })
+    await log.append({ key: 'e', timestamp: 3 })
+    expect((await log.read(page.cursor)).events).toEqual([
+      { key: 'e', timestamp: 3 },
+    ])
+  })
+})
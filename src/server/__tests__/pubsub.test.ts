@@ -0,0 +1,225 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { PubSubHandler, type InvalidationEvent } from '../pubsub.js'
+import { MemoryStore } from '../memory-store.js'
+
+function waitFor(assertion: () => void, timeout = 1000): Promise<void> {
+  return vi.waitFor(assertion, { timeout, interval: 5 })
+}
+
+describe('PubSubHandler', () => {
+  const handlers: PubSubHandler[] = []
+
+  afterEach(async () => {
+    await Promise.all(handlers.map((handler) => handler.unsubscribe()))
+    handlers.length = 0
+  })
+
+  function createHandler(
+    store: MemoryStore,
+    transport: 'redis-pubsub' | 'redis-streams'
+  ): PubSubHandler {
+    const handler = new PubSubHandler(store, { transport })
+    handlers.push(handler)
+    return handler
+  }
+
+  it('should deliver events over pub/sub', async () => {
+    const store = new MemoryStore()
+    const publisher = createHandler(store, 'redis-pubsub')
+    const subscriber = createHandler(store, 'redis-pubsub')
+    const received: InvalidationEvent[] = []
+
+    await subscriber.subscribe((_channel, event) => received.push(event))
+    await publisher.publishTagInvalidation('users', ['a', 'b'])
+
+    expect(received).toEqual([
+      expect.objectContaining({ tag: 'users', keys: ['a', 'b'] }),
+    ])
+  })
+
+  it('should skip events published by the same instance', async () => {
+    const store = new MemoryStore()
+    const handler = createHandler(store, 'redis-pubsub')
+    const received = vi.fn()
+
+    await handler.subscribe(received)
+    await handler.publishKeyInvalidation('a')
+
+    expect(received).not.toHaveBeenCalled()
+  })
+
+  it('should deliver its own events with includeOwn', async () => {
+    const store = new MemoryStore()
+    const handler = createHandler(store, 'redis-pubsub')
+    const received = vi.fn()
+
+    await handler.subscribe(received, { includeOwn: true })
+    await handler.publishKeyInvalidation('a')
+
+    expect(received).toHaveBeenCalledTimes(1)
+  })
+
+  it('should derive channel names from the prefix', async () => {
+    const store = new MemoryStore()
+    const publishSpy = vi.spyOn(store, 'publish')
+    const publisher = new PubSubHandler(store, { prefix: 'app-a' })
+
+    await publisher.publishKeyInvalidation('a')
+
+    expect(publishSpy).toHaveBeenCalledWith(
+      'app-a:invalidate:key',
+      expect.stringContaining(`"origin":"${publisher.instanceId}"`)
+    )
+  })
+
+  it('should not deliver events across prefixes', async () => {
+    const store = new MemoryStore()
+    const publisher = new PubSubHandler(store, { prefix: 'app-a' })
+    const subscriber = new PubSubHandler(store, { prefix: 'app-b' })
+    handlers.push(subscriber)
+    const received = vi.fn()
+
+    await subscriber.subscribe(received)
+    await publisher.publishTagInvalidation('users', [])
+
+    expect(received).not.toHaveBeenCalled()
+  })
+
+  it('should use custom channel names from config', async () => {
+    const store = new MemoryStore()
+    const channels = { invalidateTag: 'custom:tags' }
+    const publisher = new PubSubHandler(store, { channels })
+    const subscriber = new PubSubHandler(store, { channels })
+    handlers.push(subscriber)
+    const received = vi.fn()
+
+    await subscriber.subscribe(received)
+    await publisher.publishTagInvalidation('users', [])
+
+    expect(received).toHaveBeenCalledWith(
+      'custom:tags',
+      expect.objectContaining({ tag: 'users' })
+    )
+  })
+
+  describe('redis-streams transport', () => {
+    it('should deliver events with the pub/sub event shape', async () => {
+      const store = new MemoryStore()
+      const publisher = createHandler(store, 'redis-streams')
+      const subscriber = createHandler(store, 'redis-streams')
+      const received: Array<[string, InvalidationEvent]> = []
+
+      await subscriber.subscribe((channel, event) =>
+        received.push([channel, event])
+      )
+      await publisher.publishKeyInvalidation('app:user:1')
+      await publisher.publishPatternInvalidation('user:*', ['app:user:2'])
+
+      await waitFor(() => expect(received).toHaveLength(2))
+      expect(received[0]).toEqual([
+        'remix-cache:invalidate:key',
+        expect.objectContaining({ key: 'app:user:1' }),
+      ])
+      expect(received[1]![1]).toMatchObject({
+        pattern: 'user:*',
+        keys: ['app:user:2'],
+      })
+    })
+
+    it('should only deliver events published after subscribing', async () => {
+      const store = new MemoryStore()
+      const publisher = createHandler(store, 'redis-streams')
+      const subscriber = createHandler(store, 'redis-streams')
+      const received: InvalidationEvent[] = []
+
+      await publisher.publishKeyInvalidation('old')
+      await subscriber.subscribe((_channel, event) => received.push(event))
+      await publisher.publishKeyInvalidation('new')
+
+      await waitFor(() => expect(received).toHaveLength(1))
+      expect(received[0]!.key).toBe('new')
+    })
+
+    it('should replay missed events after a failed read', async () => {
+      const store = new MemoryStore()
+      const publisher = createHandler(store, 'redis-streams')
+      const subscriber = createHandler(store, 'redis-streams')
+      const received: string[] = []
+
+      const xread = store.xread.bind(store)
+      const spy = vi
+        .spyOn(store, 'xread')
+        .mockRejectedValueOnce(new Error('connection lost'))
+        .mockImplementation(xread)
+
+      await subscriber.subscribe((_channel, event) => received.push(event.key!))
+      await publisher.publishKeyInvalidation('a')
+      await publisher.publishKeyInvalidation('b')
+
+      await waitFor(() => expect(received).toEqual(['a', 'b']), 3000)
+      expect(spy).toHaveBeenCalled()
+    })
+
+    it('should replay events after a stream ID', async () => {
+      const store = new MemoryStore()
+      const publisher = createHandler(store, 'redis-streams')
+
+      await publisher.publishKeyInvalidation('a')
+      const [first] = await store.xread(
+        'remix-cache:invalidate:stream',
+        '0-0',
+        {
+          count: 1,
+        }
+      )
+      await publisher.publishKeyInvalidation('b')
+      await publisher.publishKeyInvalidation('c')
+
+      const replayed = await publisher.replay(first!.id)
+      expect(replayed.map(({ event }) => event.key)).toEqual(['b', 'c'])
+      expect(await publisher.replay('not-an-id')).toEqual([])
+    })
+
+    it('should start after a configured stream ID', async () => {
+      const store = new MemoryStore()
+      const publisher = createHandler(store, 'redis-streams')
+
+      await publisher.publishKeyInvalidation('a')
+      const startId = await store.xlastId('remix-cache:invalidate:stream')
+      await publisher.publishKeyInvalidation('b')
+
+      const subscriber = new PubSubHandler(store, {
+        transport: 'redis-streams',
+        streamStartId: startId,
+      })
+      handlers.push(subscriber)
+      const received: string[] = []
+      await subscriber.subscribe((_channel, event) => received.push(event.key!))
+      await publisher.publishKeyInvalidation('c')
+
+      await waitFor(() => expect(received).toEqual(['b', 'c']))
+    })
+
+    it('should trim the stream to the configured length', async () => {
+      const store = new MemoryStore()
+      const publisher = new PubSubHandler(store, {
+        transport: 'redis-streams',
+        streamMaxLength: 2,
+      })
+
+      for (const key of ['a', 'b', 'c']) {
+        await publisher.publishKeyInvalidation(key)
+      }
+
+      const entries = await store.xread(
+        'remix-cache:invalidate:stream',
+        '0-0',
+        {
+          count: 10,
+          blockMs: 1,
+        }
+      )
+      expect(entries).toHaveLength(2)
+    })
+  })
+})
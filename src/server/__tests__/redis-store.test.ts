@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import Redis from 'ioredis'
+import { RedisStore } from '../redis-store.js'
+
+describe('RedisStore scripts', () => {
+  let client: Redis
+
+  afterEach(() => {
+    client.disconnect()
+  })
+
+  it('should send the script source only when Redis lacks it', async () => {
+    client = new Redis({ lazyConnect: true })
+    const store = new RedisStore(client)
+
+    const evalsha = vi
+      .spyOn(client, 'evalsha')
+      .mockRejectedValueOnce(new Error('NOSCRIPT No matching script'))
+      .mockResolvedValue(1)
+    const evalSource = vi.spyOn(client, 'eval').mockResolvedValue(1)
+
+    expect(await store.delIfEquals('lock', 'a')).toBe(true)
+    expect(await store.delIfEquals('lock', 'a')).toBe(true)
+
+    expect(evalsha).toHaveBeenCalledTimes(2)
+    expect(evalSource).toHaveBeenCalledTimes(1)
+    expect(evalsha.mock.calls[0]![0]).toMatch(/^[0-9a-f]{40}$/)
+  })
+
+  it('should page through index sets with the invalidation script', async () => {
+    client = new Redis({ lazyConnect: true })
+    const store = new RedisStore(client)
+
+    const evalsha = vi
+      .spyOn(client, 'evalsha')
+      .mockResolvedValueOnce(['7', ['app:post:1', 'app:post:2']])
+      .mockResolvedValueOnce(['0', ['app:post:2', 'app:post:3']])
+
+    const keys = await store.invalidateMembers('app:tag:posts', {
+      layout: {
+        keyTagsPrefix: 'app:key-tags:',
+        tagPrefix: 'app:tag:',
+        hashTag: false,
+      },
+    })
+
+    expect(keys).toEqual(['app:post:1', 'app:post:2', 'app:post:3'])
+    expect(evalsha).toHaveBeenCalledTimes(2)
+    expect(evalsha.mock.calls[1]).toEqual(
+      expect.arrayContaining(['app:tag:posts', '7'])
+    )
+  })
+
+  it('should match hash-tagged members without their braces', async () => {
+    client = new Redis({ lazyConnect: true })
+    const store = new RedisStore(client)
+    const evalsha = vi.spyOn(client, 'evalsha').mockResolvedValue(['0', []])
+    const layout = {
+      keyTagsPrefix: 'app:key-tags:',
+      tagPrefix: 'app:tag:',
+      hashTag: true,
+    }
+
+    await store.invalidateMembers('app:pattern:{post}', {
+      layout,
+      match: 'app:post:*',
+    })
+    await store.invalidateMembers('app:pattern:post', {
+      layout: { ...layout, hashTag: false },
+      match: 'app:post:*',
+    })
+
+    // Braced members can't use MATCH, so only the Lua pattern filters
+    expect(evalsha.mock.calls[0]!.slice(-2)).toEqual(['', '^app:post:.*$'])
+    expect(evalsha.mock.calls[1]!.slice(-2)).toEqual(['app:post:*', ''])
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches, sleep } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('Scheduled warming', () => {
+  const createMemoryCache = setupMemoryCaches()
+
+  function defineProducts(cache: Cache, fetchFn = vi.fn()) {
+    fetchFn.mockImplementation(async (id: string) => `product-${id}`)
+    return cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+    })
+  }
+
+  it('should warm on every interval and record the run', async () => {
+    const cache = createMemoryCache()
+    const productCache = defineProducts(cache)
+
+    const job = cache.schedule(productCache, {
+      every: 40,
+      entries: () => [['1'], ['2']],
+    })
+    expect(job.name).toBe('product')
+
+    await vi.waitFor(async () => {
+      expect((await job.getStatus()).runs).toBeGreaterThanOrEqual(1)
+    })
+
+    const status = await job.getStatus()
+    expect(status.lastResult).toEqual({
+      total: 2,
+      succeeded: 2,
+      failed: 0,
+      skipped: 0,
+    })
+    expect(status.lastRunAt).not.toBeNull()
+    expect(status.lastDurationMs).toBeGreaterThanOrEqual(0)
+    expect(await productCache.get('1')).toBe('product-1')
+  })
+
+  it('should run each period on one instance only', async () => {
+    const store = new MemoryStore()
+    const fetchA = vi.fn()
+    const fetchB = vi.fn()
+    const options = { every: 1000, entries: () => [['1']] }
+
+    const cacheA = createMemoryCache({ store })
+    cacheA.schedule(defineProducts(cacheA, fetchA), options)
+    const cacheB = createMemoryCache({ store })
+    cacheB.schedule(defineProducts(cacheB, fetchB), options)
+
+    await sleep(1200)
+    expect(fetchA.mock.calls.length + fetchB.mock.calls.length).toBe(1)
+  })
+
+  it('should wait out periods longer than the timer limit', async () => {
+    vi.useFakeTimers()
+    try {
+      const cache = createMemoryCache()
+      const fetchFn = vi.fn()
+      const day = 24 * 60 * 60 * 1000
+      cache.schedule(defineProducts(cache, fetchFn), {
+        every: 30 * day,
+        entries: () => [['1']],
+      })
+
+      await vi.advanceTimersByTimeAsync(29 * day)
+      expect(fetchFn).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(day)
+      expect(fetchFn).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should record failures', async () => {
+    const cache = createMemoryCache()
+    const onError = vi.fn()
+    cache.on('error', onError)
+
+    const job = cache.schedule(defineProducts(cache), {
+      every: 30,
+      entries: () => {
+        throw new Error('catalog unavailable')
+      },
+    })
+
+    await vi.waitFor(async () => {
+      expect((await job.getStatus()).consecutiveFailures).toBeGreaterThan(0)
+    })
+    expect((await job.getStatus()).lastError).toBe('catalog unavailable')
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'schedule' })
+    )
+  })
+
+  it('should count a run where every entry failed as a failure', async () => {
+    const cache = createMemoryCache()
+    const fetchFn = vi.fn()
+    const productCache = defineProducts(cache, fetchFn)
+    fetchFn.mockRejectedValue(new Error('catalog unavailable'))
+
+    const job = cache.schedule(productCache, {
+      every: 30,
+      entries: () => [['1'], ['2']],
+    })
+
+    await vi.waitFor(async () => {
+      expect((await job.getStatus()).consecutiveFailures).toBeGreaterThan(1)
+    })
+    const status = await job.getStatus()
+    expect(status.lastResult).toMatchObject({ total: 2, failed: 2 })
+    expect(status.lastError).toBe('Every entry failed: catalog unavailable')
+
+    // One success resets the count
+    fetchFn.mockImplementation(async (id: string) =>
+      id === '1' ? `product-${id}` : Promise.reject(new Error('missing'))
+    )
+    await vi.waitFor(async () => {
+      expect((await job.getStatus()).consecutiveFailures).toBe(0)
+    })
+  })
+
+  it('should stop jobs on close', async () => {
+    const cache = createMemoryCache()
+    const fetchFn = vi.fn()
+    cache.schedule(defineProducts(cache, fetchFn), {
+      every: 20,
+      entries: () => [['1']],
+    })
+
+    await cache.close()
+    await sleep(60)
+
+    expect(fetchFn).not.toHaveBeenCalled()
+  })
+
+  it('should validate options and mode', () => {
+    const cache = createMemoryCache()
+    const productCache = defineProducts(cache)
+
+    expect(() => cache.schedule(productCache, { entries: () => [] })).toThrow(
+      'exactly one of'
+    )
+    expect(() =>
+      cache.schedule(productCache, { cron: 'bad', entries: () => [] })
+    ).toThrow('Invalid cron expression')
+
+    const serverless = createMemoryCache({ mode: 'serverless' })
+    expect(() =>
+      serverless.schedule(defineProducts(serverless), {
+        every: 1000,
+        entries: () => [],
+      })
+    ).toThrow('requires server mode')
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { createCache } from '../cache.js'
 import { createSSEHandler } from '../sse-handler.js'
+import { MemoryStore } from '../memory-store.js'
 import type { Cache } from '../../types/cache.js'
 import Redis from 'ioredis'
 
@@ -362,3 +363,295 @@ describe('SSE Handler', () => {
     })
   })
 })
+
+describe('SSE Handler with redis source', () => {
+  const caches: Cache[] = []
+
+  afterEach(async () => {
+    await Promise.all(caches.map((cache) => cache.close()))
+    caches.length = 0
+  })
+
+  function createInstance(store: MemoryStore, mode: 'server' | 'serverless') {
+    const cache = createCache({
+      store,
+      mode,
+      pubsub: { enabled: true, transport: 'redis-streams' },
+    })
+    caches.push(cache)
+    return cache
+  }
+
+  async function collect(
+    handler: ReturnType<typeof createSSEHandler>,
+    headers: Record<string, string>,
+    trigger: () => Promise<void>
+  ): Promise<string> {
+    const controller = new AbortController()
+    const response = await handler({
+      request: new Request('http://localhost/api/cache-events', {
+        headers,
+        signal: controller.signal,
+      }),
+    })
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let text = ''
+
+    await trigger()
+    await vi.waitFor(
+      async () => {
+        const { value } = await reader.read()
+        text += decoder.decode(value)
+        expect(text).toContain('\n\n')
+      },
+      { timeout: 1000, interval: 5 }
+    )
+
+    controller.abort()
+    return text
+  }
+
+  it('should serve invalidations published by other instances', async () => {
+    const store = new MemoryStore()
+    const writer = createInstance(store, 'serverless')
+    const reader = createInstance(store, 'serverless')
+
+    const text = await collect(
+      createSSEHandler(reader, { source: 'redis' }),
+      {},
+      () => writer.invalidateMany(['remix-cache:user:1'])
+    )
+
+    expect(text).toMatch(/^id: \d+-\d+\nevent: invalidate\n/)
+    expect(text).toContain('remix-cache:user:1')
+  })
+
+  it('should serve serverless definition invalidations', async () => {
+    const store = new MemoryStore()
+    const writer = createInstance(store, 'serverless')
+    const reader = createInstance(store, 'serverless')
+    const userCache = writer.define({
+      name: 'user',
+      key: (id: string) => id,
+      tags: (id: string) => [`user:${id}`],
+    })
+    await userCache.set('1', 'Alice')
+
+    const text = await collect(
+      createSSEHandler(reader, { source: 'redis' }),
+      {},
+      () => userCache.invalidate('1')
+    )
+
+    expect(text).toContain('remix-cache:user:1')
+    expect(await userCache.get('1')).toBeNull()
+    expect(await store.smembers('remix-cache:tag:user:1')).toEqual([])
+    expect(await store.smembers('remix-cache:pattern:user')).toEqual([])
+  })
+
+  it('should replay events after Last-Event-ID', async () => {
+    const store = new MemoryStore()
+    const cache = createInstance(store, 'server')
+    const handler = createSSEHandler(cache, { source: 'redis' })
+
+    const first = await collect(handler, {}, () =>
+      cache.invalidateMany(['remix-cache:user:1'])
+    )
+    const lastEventId = first.match(/^id: (\S+)/)![1]!
+    await cache.invalidateMany(['remix-cache:user:2'])
+
+    const replayed = await collect(
+      handler,
+      { 'Last-Event-ID': lastEventId },
+      async () => {}
+    )
+
+    expect(replayed).toContain('remix-cache:user:2')
+    expect(replayed).not.toContain('remix-cache:user:1')
+  })
+
+  it('should require pub/sub for the redis source', async () => {
+    const cache = createCache({ store: new MemoryStore(), mode: 'serverless' })
+    caches.push(cache)
+
+    await expect(
+      createSSEHandler(cache, { source: 'redis' })({
+        request: new Request('http://localhost/api/cache-events'),
+      })
+    ).rejects.toThrow('requires pub/sub')
+  })
+
+  it('should hold the connection limit while subscribing', async () => {
+    const cache = createInstance(new MemoryStore(), 'server')
+    const handler = createSSEHandler(cache, {
+      source: 'redis',
+      maxConnections: 1,
+    })
+    const controllers = [1, 2, 3].map(() => new AbortController())
+
+    const responses = await Promise.all(
+      controllers.map((controller) =>
+        handler({
+          request: new Request('http://localhost/api/cache-events', {
+            signal: controller.signal,
+          }),
+        })
+      )
+    )
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 503, 503,
+    ])
+    expect(handler.getMetrics()).toMatchObject({
+      activeConnections: 1,
+      rejectedConnections: 2,
+    })
+    controllers.forEach((controller) => controller.abort())
+  })
+
+  it('should release the slot when subscribing fails', async () => {
+    const cache = createCache({ store: new MemoryStore(), mode: 'serverless' })
+    caches.push(cache)
+    const handler = createSSEHandler(cache, {
+      source: 'redis',
+      maxConnections: 1,
+    })
+
+    await expect(
+      handler({ request: new Request('http://localhost/api/cache-events') })
+    ).rejects.toThrow('requires pub/sub')
+    expect(handler.getMetrics().activeConnections).toBe(0)
+  })
+})
+
+describe('SSE Handler options', () => {
+  let cache: Cache
+
+  afterEach(async () => {
+    await cache.close()
+  })
+
+  function connect(
+    handler: ReturnType<typeof createSSEHandler>,
+    url = 'http://localhost/api/cache-events',
+    headers: Record<string, string> = {}
+  ) {
+    const controller = new AbortController()
+    const response = handler({
+      request: new Request(url, { headers, signal: controller.signal }),
+    })
+    let text = ''
+
+    return {
+      response,
+      abort: () => controller.abort(),
+      async readUntil(expected: string): Promise<string> {
+        const reader = (await response).body!.getReader()
+        const decoder = new TextDecoder()
+        while (!text.includes(expected)) {
+          const { done, value } = await reader.read()
+          if (done) break
+          text += decoder.decode(value)
+        }
+        reader.releaseLock()
+        return text
+      },
+    }
+  }
+
+  function setup() {
+    cache = createCache({ store: new MemoryStore(), mode: 'server' })
+  }
+
+  it('should send heartbeat comments', async () => {
+    setup()
+    const client = connect(createSSEHandler(cache, { heartbeatInterval: 10 }))
+
+    expect(await client.readUntil(': heartbeat')).toContain(': heartbeat\n\n')
+    client.abort()
+  })
+
+  it('should reject connections over the limit and track metrics', async () => {
+    setup()
+    const handler = createSSEHandler(cache, { maxConnections: 1 })
+
+    const first = connect(handler)
+    await first.response
+    const second = await connect(handler).response
+
+    expect(second.status).toBe(503)
+    expect(handler.getMetrics()).toMatchObject({
+      activeConnections: 1,
+      totalConnections: 1,
+      rejectedConnections: 1,
+    })
+
+    first.abort()
+    expect(handler.getMetrics().activeConnections).toBe(0)
+    expect((await connect(handler).response).status).toBe(200)
+  })
+
+  it('should release the connection when the stream is cancelled', async () => {
+    setup()
+    const handler = createSSEHandler(cache, { maxConnections: 1 })
+    const client = connect(handler)
+
+    await (await client.response).body!.cancel()
+    expect(handler.getMetrics().activeConnections).toBe(0)
+    expect(cache.listenerCount('invalidate')).toBe(0)
+
+    // Aborting afterwards doesn't release the slot twice
+    client.abort()
+    expect(handler.getMetrics().activeConnections).toBe(0)
+    expect((await connect(handler).response).status).toBe(200)
+  })
+
+  it('should only send invalidations the client subscribed to', async () => {
+    setup()
+    const handler = createSSEHandler(cache)
+    const client = connect(
+      handler,
+      'http://localhost/api/cache-events?tags=posts&patterns=user:*,team:*'
+    )
+    await client.response
+
+    cache.emit('invalidate', { tag: 'comments', keys: ['c'], timestamp: 1 })
+    cache.emit('invalidate', { keys: ['remix-cache:user:1'], timestamp: 2 })
+    cache.emit('invalidate', { keys: ['remix-cache:{team}:1'], timestamp: 3 })
+    cache.emit('invalidate', { keys: ['other:user:1'], timestamp: 4 })
+    cache.emit('invalidate', { tag: 'posts', keys: ['p'], timestamp: 5 })
+
+    const text = await client.readUntil('"posts"')
+    expect(text).toContain('remix-cache:user:1')
+    expect(text).toContain('remix-cache:{team}:1')
+    expect(text).not.toContain('comments')
+    expect(text).not.toContain('other:user:1')
+    expect(handler.getMetrics()).toMatchObject({
+      eventsSent: 3,
+      eventsFiltered: 2,
+    })
+    client.abort()
+  })
+
+  it('should apply the server-side filter in order', async () => {
+    setup()
+    const handler = createSSEHandler(cache, {
+      filter: async (request, event) => {
+        await new Promise((resolve) => setTimeout(resolve, event.timestamp))
+        return event.key!.endsWith(request.headers.get('x-user-id')!)
+      },
+    })
+    const client = connect(handler, undefined, { 'x-user-id': '1' })
+    await client.response
+
+    cache.emit('invalidate', { key: 'user:1', timestamp: 20 })
+    cache.emit('invalidate', { key: 'user:2', timestamp: 1 })
+    cache.emit('invalidate', { key: 'team:1', timestamp: 1 })
+
+    const text = await client.readUntil('team:1')
+    expect(text.indexOf('user:1')).toBeLessThan(text.indexOf('team:1'))
+    expect(text).not.toContain('user:2')
+    client.abort()
+  })
+})
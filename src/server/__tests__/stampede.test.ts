@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches, sleep } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('Distributed dedupe', () => {
+  const createMemoryCache = setupMemoryCaches()
+
+  function defineOn(
+    store: MemoryStore,
+    fetchFn: (id: string) => Promise<string>,
+    mode: 'server' | 'serverless' = 'server'
+  ) {
+    const cache = createMemoryCache({ store, mode, local: { enabled: false } })
+    return cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      dedupe: 'distributed',
+      lockTimeout: 1000,
+    })
+  }
+
+  it.each(['server', 'serverless'] as const)(
+    'should fetch once across instances in %s mode',
+    async (mode) => {
+      const store = new MemoryStore()
+      const fetchFn = vi.fn(async (id: string) => {
+        await sleep(100)
+        return `product-${id}`
+      })
+      const instances = [1, 2, 3].map(() => defineOn(store, fetchFn, mode))
+
+      const values = await Promise.all(
+        instances.map((instance) => instance.get('1'))
+      )
+
+      expect(values).toEqual(['product-1', 'product-1', 'product-1'])
+      expect(fetchFn).toHaveBeenCalledTimes(1)
+    }
+  )
+
+  it('should fetch locally when the lock holder dies', async () => {
+    const store = new MemoryStore()
+    const fetchFn = vi.fn(async (id: string) => `product-${id}`)
+    const productCache = defineOn(store, fetchFn)
+
+    // A holder that never writes a value or releases its lock
+    await store.setnx('remix-cache:lock:fetch:remix-cache:product:1', 'x', 150)
+
+    const started = Date.now()
+    expect(await productCache.get('1')).toBe('product-1')
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100)
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(
+      await store.get('remix-cache:lock:fetch:remix-cache:product:1')
+    ).toBeNull()
+  })
+})
+
+describe('Early recompute', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function setup(earlyRecompute?: boolean | number) {
+    const store = new MemoryStore()
+    cache = createMemoryCache({ store })
+    let version = 0
+    const fetchFn = vi.fn(async () => {
+      await sleep(5)
+      return `v${++version}`
+    })
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      ttl: 1,
+      earlyRecompute,
+    })
+    return { store, fetchFn, productCache }
+  }
+
+  it('should store the fetch duration next to expiresAt', async () => {
+    const { store, productCache } = setup(true)
+
+    await productCache.get('1')
+
+    const raw = JSON.parse((await store.get('remix-cache:product:1'))!)
+    expect(raw.json).toMatchObject({ data: 'v1' })
+    expect(raw.json.expiresAt).toBeGreaterThan(Date.now())
+    expect(raw.json.delta).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should refresh in the background when the draw says so', async () => {
+    const { fetchFn, productCache } = setup(1)
+    await productCache.get('1')
+
+    // ln(tiny) is about -744, so a 5ms fetch counts as due 3.7s early
+    vi.spyOn(Math, 'random').mockReturnValue(Number.MIN_VALUE)
+
+    expect(await productCache.get('1')).toBe('v1')
+    await vi.waitFor(() => expect(fetchFn).toHaveBeenCalledTimes(2))
+    await vi.waitFor(async () => expect(await productCache.get('1')).toBe('v2'))
+  })
+
+  it('should not refresh fresh entries far from expiry', async () => {
+    const { fetchFn, productCache } = setup(1)
+    await productCache.get('1')
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+
+    expect(await productCache.get('1')).toBe('v1')
+    await sleep(20)
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+import type { CacheErrorEvent } from '../../types/events.js'
+
+describe('Stale-while-revalidate', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let waitUntil: ReturnType<typeof vi.fn>
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(mode: 'server' | 'serverless') {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+
+    waitUntil = vi.fn()
+    const store = new MemoryStore()
+    cache = createMemoryCache({
+      store,
+      mode,
+      local: { enabled: false },
+      waitUntil,
+    })
+
+    let version = 0
+    const fetchFn = vi.fn(async (id: string) => `${id}-v${++version}`)
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      ttl: 60,
+      staleWhileRevalidate: 60,
+    })
+    return { store, fetchFn, productCache }
+  }
+
+  function advance(seconds: number) {
+    vi.setSystemTime(Date.now() + seconds * 1000)
+  }
+
+  it('should unwrap and revalidate stale values in serverless mode', async () => {
+    const { fetchFn, productCache } = setup('serverless')
+
+    expect(await productCache.get('1')).toBe('1-v1')
+    expect(await productCache.get('1')).toBe('1-v1')
+
+    advance(90)
+    expect(await productCache.get('1')).toBe('1-v1')
+    expect(waitUntil).toHaveBeenCalledTimes(1)
+    await waitUntil.mock.calls[0]![0]
+
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(await productCache.get('1')).toBe('1-v2')
+  })
+
+  it('should treat values past the stale period as misses', async () => {
+    const { fetchFn, productCache } = setup('serverless')
+
+    await productCache.get('1')
+    advance(150)
+
+    expect(await productCache.get('1')).toBe('1-v2')
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(waitUntil).not.toHaveBeenCalled()
+  })
+
+  it('should wrap setMany values and revalidate stale getMany entries', async () => {
+    const { store, fetchFn, productCache } = setup('server')
+
+    await productCache.setMany([
+      { args: ['1'], value: 'one' },
+      { args: ['2'], value: 'two' },
+    ])
+    const raw = JSON.parse((await store.get('remix-cache:product:1'))!)
+    expect(raw.json).toMatchObject({ data: 'one' })
+
+    advance(90)
+    expect(await productCache.getMany([['1'], ['2']])).toEqual(['one', 'two'])
+    expect(waitUntil).toHaveBeenCalledTimes(1)
+    await waitUntil.mock.calls[0]![0]
+
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(await productCache.getMany([['1'], ['2']])).toEqual(['1-v1', '2-v2'])
+  })
+})
+
+describe('Stale-if-error', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(mode: 'server' | 'serverless', staleWhileRevalidate = 0) {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+
+    cache = createMemoryCache({ mode })
+    const errors: CacheErrorEvent[] = []
+    cache.on('error', (event) => errors.push(event))
+
+    let failing = false
+    const fetchFn = vi.fn(async (id: string) => {
+      if (failing) throw new Error('database down')
+      return `product-${id}`
+    })
+    const productCache = cache.define({
+      name: 'product',
+      key: (id: string) => id,
+      fetch: fetchFn,
+      ttl: 60,
+      staleWhileRevalidate,
+      staleIfError: 300,
+    })
+    return { errors, fetchFn, productCache, fail: () => (failing = true) }
+  }
+
+  function advance(seconds: number) {
+    vi.setSystemTime(Date.now() + seconds * 1000)
+  }
+
+  it.each(['server', 'serverless'] as const)(
+    'should serve the retained value when fetch fails (%s)',
+    async (mode) => {
+      const { errors, fetchFn, productCache, fail } = setup(mode)
+
+      await productCache.get('1')
+      advance(120)
+      fail()
+
+      expect(await productCache.getWithMeta('1')).toMatchObject({
+        data: 'product-1',
+        isStale: true,
+      })
+      expect(fetchFn).toHaveBeenCalledTimes(2)
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toMatchObject({
+        operation: 'fetch',
+        key: 'remix-cache:product:1',
+      })
+      expect(errors[0]!.error.message).toBe('database down')
+    }
+  )
+
+  it('should throw once the staleIfError period has passed', async () => {
+    const { productCache, fail } = setup('server')
+
+    await productCache.get('1')
+    advance(400)
+    fail()
+
+    await expect(productCache.get('1')).rejects.toThrow('database down')
+  })
+
+  it('should report failed background revalidations', async () => {
+    const { errors, productCache, fail } = setup('server', 60)
+
+    await productCache.get('1')
+    advance(90)
+    fail()
+
+    expect(await productCache.getWithMeta('1')).toMatchObject({
+      data: 'product-1',
+      isStale: true,
+    })
+    await vi.waitFor(() => expect(errors).toHaveLength(1))
+    expect(errors[0]).toMatchObject({ operation: 'fetch' })
+  })
+
+  it('should serve retained values from getMany', async () => {
+    const { errors, productCache, fail } = setup('server')
+
+    await productCache.getMany([['1'], ['2']])
+    advance(120)
+    fail()
+
+    expect(await productCache.getMany([['1'], ['2']])).toEqual([
+      'product-1',
+      'product-2',
+    ])
+    expect(errors).toHaveLength(2)
+  })
+})
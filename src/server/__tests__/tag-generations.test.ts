@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('Generation tag strategy', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  function setup(
+    mode: 'server' | 'serverless' = 'server',
+    fetch?: (id: string) => Promise<string>
+  ) {
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, mode, tagStrategy: 'generation' })
+    return cache.define({
+      name: 'post',
+      key: (id: string) => id,
+      tags: (id: string) => ['posts', `post:${id}`],
+      fetch,
+      ttl: 60,
+    })
+  }
+
+  it('should invalidate a tag with one counter instead of an index', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'one')
+    await postCache.set('2', 'two')
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([])
+
+    const events: unknown[] = []
+    cache.on('invalidate', (event) => events.push(event))
+    await cache.invalidateTag('post:1')
+
+    expect(await store.get('remix-cache:tag-gen:post:1')).toBe('1')
+    expect(await postCache.get('1')).toBeNull()
+    expect(await postCache.get('2')).toBe('two')
+    expect(events).toEqual([
+      expect.objectContaining({ tag: 'post:1', keys: [] }),
+    ])
+  })
+
+  it('should serve entries written after the invalidation', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'old')
+    await cache.invalidateTag('posts')
+    await postCache.set('1', 'new')
+
+    expect(await postCache.get('1')).toBe('new')
+  })
+
+  it('should treat outdated entries as misses in batch reads', async () => {
+    const postCache = setup()
+
+    await postCache.setMany([
+      { args: ['1'], value: 'one' },
+      { args: ['2'], value: 'two' },
+    ])
+    await cache.invalidateBatch({ tags: ['post:2'] })
+
+    expect(await postCache.getMany([['1'], ['2']])).toEqual(['one', null])
+  })
+
+  it('should outdate a value fetched while its tag was invalidated', async () => {
+    let release!: () => void
+    const fetch = vi.fn(async (id: string) => {
+      await new Promise<void>((resolve) => (release = resolve))
+      return `post-${id}`
+    })
+    const postCache = setup('serverless', fetch)
+
+    const pending = postCache.get('1')
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1))
+    await cache.invalidateTag('posts')
+    release()
+    expect(await pending).toBe('post-1')
+
+    const next = postCache.get('1')
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+    release()
+    expect(await next).toBe('post-1')
+  })
+})
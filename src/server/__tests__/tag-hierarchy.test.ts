@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { CacheInvalidateEvent } from '../../types/events.js'
+
+describe('Hierarchical tags', () => {
+  const createMemoryCache = setupMemoryCaches()
+
+  function setup(
+    store: MemoryStore,
+    tagStrategy: 'index' | 'generation' = 'index'
+  ) {
+    const cache = createMemoryCache({ store, tagStrategy })
+    const taskCache = cache.define({
+      name: 'task',
+      key: (org: string, project: string, task: string) =>
+        `${org}:${project}:${task}`,
+      tags: (org: string, project: string, task: string) => [
+        `org:${org}:project:${project}:task:${task}`,
+      ],
+    })
+    return { cache, taskCache }
+  }
+
+  it.each(['index', 'generation'] as const)(
+    'should invalidate every tag below a wildcard with the %s strategy',
+    async (strategy) => {
+      const { cache, taskCache } = setup(new MemoryStore(), strategy)
+      await taskCache.set('42', '7', '99', 'a')
+      await taskCache.set('42', '8', '1', 'b')
+      await taskCache.set('43', '7', '99', 'c')
+
+      await cache.invalidateTag('org:42:*')
+
+      expect(await taskCache.get('42', '7', '99')).toBeNull()
+      expect(await taskCache.get('42', '8', '1')).toBeNull()
+      expect(await taskCache.get('43', '7', '99')).toBe('c')
+    }
+  )
+
+  it('should publish the resolved tags as one invalidation', async () => {
+    const { cache, taskCache } = setup(new MemoryStore())
+    await taskCache.set('42', '7', '99', 'a')
+    await taskCache.set('42', '7', '100', 'b')
+
+    const events: CacheInvalidateEvent[] = []
+    cache.on('invalidate', (event) => events.push(event))
+    await cache.invalidateTagPrefix('org:42:project:7')
+
+    expect(events).toHaveLength(1)
+    expect(events[0]!.tags!.sort()).toEqual([
+      'org:42:project:7',
+      'org:42:project:7:task:100',
+      'org:42:project:7:task:99',
+    ])
+    expect(events[0]!.keys!.sort()).toEqual([
+      'remix-cache:task:42:7:100',
+      'remix-cache:task:42:7:99',
+    ])
+  })
+
+  it('should keep the registry when a wildcard invalidation fails', async () => {
+    const store = new MemoryStore()
+    const { cache, taskCache } = setup(store)
+    await taskCache.set('42', '7', '99', 'a')
+
+    // Fail once on the tag found in the registry
+    const invalidateMembers = store.invalidateMembers.bind(store)
+    let failed = false
+    vi.spyOn(store, 'invalidateMembers').mockImplementation(
+      async (key, options) => {
+        if (!failed && key.endsWith(':task:99')) {
+          failed = true
+          throw new Error('Store unavailable')
+        }
+        return invalidateMembers(key, options)
+      }
+    )
+    await expect(cache.invalidateTag('org:42:*')).rejects.toThrow(
+      'Store unavailable'
+    )
+
+    await cache.invalidateTag('org:42:*')
+    expect(await taskCache.get('42', '7', '99')).toBeNull()
+  })
+
+  it('should clear local copies on other instances', async () => {
+    const store = new MemoryStore()
+    const first = setup(store, 'generation')
+    const second = setup(store, 'generation')
+
+    await second.taskCache.set('42', '7', '99', 'a')
+    expect(await second.taskCache.get('42', '7', '99')).toBe('a')
+
+    await first.cache.invalidateTag('org:*')
+    expect(await second.taskCache.get('42', '7', '99')).toBeNull()
+  })
+})
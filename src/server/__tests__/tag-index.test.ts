@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('Tag index', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(mode: 'server' | 'serverless' = 'server') {
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, mode, local: { enabled: false } })
+    return cache.define({
+      name: 'post',
+      key: (id: string, _author: string) => id,
+      tags: (id: string, author: string) => ['posts', `author:${author}`],
+      ttl: 60,
+    })
+  }
+
+  it('should drop keys from tags they no longer have on overwrite', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'alice', 'draft')
+    await postCache.set('1', 'bob', 'published')
+
+    expect(await store.smembers('remix-cache:tag:author:alice')).toEqual([])
+    expect(await store.smembers('remix-cache:tag:author:bob')).toEqual([
+      'remix-cache:post:1',
+    ])
+
+    await cache.invalidateTag('author:alice')
+    expect(await postCache.get('1', 'bob')).toBe('published')
+  })
+
+  it('should drop stale memberships in setMany too', async () => {
+    const postCache = setup()
+
+    await postCache.setMany([{ args: ['1', 'alice'], value: 'draft' }])
+    await postCache.setMany([{ args: ['1', 'bob'], value: 'published' }])
+
+    expect(await store.smembers('remix-cache:tag:author:alice')).toEqual([])
+  })
+
+  it('should remove invalidated keys from their other tags', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'alice', 'one')
+    await postCache.set('2', 'alice', 'two')
+    await cache.invalidateTag('posts')
+
+    expect(await store.smembers('remix-cache:tag:author:alice')).toEqual([])
+    expect(
+      await store.get('remix-cache:key-tags:remix-cache:post:1')
+    ).toBeNull()
+  })
+
+  it('should expire tag sets with their longest-lived member', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    store = new MemoryStore()
+    cache = createMemoryCache({ store, local: { enabled: false } })
+    const shortCache = cache.define({
+      name: 'short',
+      key: (id: string) => id,
+      tags: () => ['shared'],
+      ttl: 10,
+    })
+    const longCache = cache.define({
+      name: 'long',
+      key: (id: string) => id,
+      tags: () => ['shared'],
+      ttl: 60,
+    })
+
+    await longCache.set('1', 'long')
+    await shortCache.set('1', 'short')
+
+    vi.advanceTimersByTime(30_000)
+    expect(await store.smembers('remix-cache:tag:shared')).toHaveLength(2)
+
+    vi.advanceTimersByTime(31_000)
+    expect(await store.smembers('remix-cache:tag:shared')).toEqual([])
+  })
+
+  it('should prune members whose key is gone with gc', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'alice', 'one')
+    await postCache.set('2', 'alice', 'two')
+    await postCache.set('3', 'bob', 'three')
+    await store.del(['remix-cache:post:1', 'remix-cache:post:3'])
+
+    expect(await cache.gc({ batchSize: 1 })).toEqual({
+      tagSets: 3,
+      removed: 4,
+    })
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([
+      'remix-cache:post:2',
+    ])
+    expect(await store.smembers('remix-cache:tag:author:bob')).toEqual([])
+  })
+
+  it('should check current versions with gc in serverless mode', async () => {
+    const postCache = setup('serverless')
+
+    await postCache.set('1', 'alice', 'one')
+    expect(await cache.gc()).toEqual({ tagSets: 2, removed: 0 })
+
+    // invalidate drops its own index entries, so bump the version
+    // directly to leave members behind
+    await store.set('remix-cache:version:remix-cache:post:1', '1')
+    expect(await cache.gc()).toEqual({ tagSets: 2, removed: 2 })
+
+    await postCache.set('2', 'alice', 'two')
+    await postCache.invalidate('2', 'alice')
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([])
+  })
+
+  it('should clean every index of keys invalidated by key or pattern', async () => {
+    const postCache = setup()
+
+    await postCache.set('1', 'alice', 'one')
+    await postCache.set('2', 'bob', 'two')
+    await cache.invalidateMany(['remix-cache:post:1'])
+    await cache.invalidatePattern('post:*')
+
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([])
+    expect(await store.smembers('remix-cache:tag:author:bob')).toEqual([])
+    expect(await store.smembers('remix-cache:pattern:post')).toEqual([])
+  })
+
+  it('should bump versions when invalidating by tag in serverless mode', async () => {
+    const postCache = setup('serverless')
+
+    await postCache.set('1', 'alice', 'one')
+    await cache.invalidateTag('author:alice')
+
+    expect(await postCache.get('1', 'alice')).toBeNull()
+    expect(await store.get('remix-cache:version:remix-cache:post:1')).toBe('1')
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([])
+  })
+
+  it('should bump versions in definition invalidateMany in serverless mode', async () => {
+    const postCache = setup('serverless')
+
+    await postCache.set('1', 'alice', 'one')
+    await postCache.invalidateMany([['1', 'alice']])
+
+    expect(await postCache.get('1', 'alice')).toBeNull()
+    expect(await store.get('remix-cache:version:remix-cache:post:1')).toBe('1')
+    expect(await store.smembers('remix-cache:tag:posts')).toEqual([])
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest'
+import { withInvalidation } from '../with-invalidation.js'
+import { MemoryStore } from '../memory-store.js'
+import { setupMemoryCaches } from './helpers.js'
+import {
+  decodeInvalidationHeader,
+  readInvalidationData,
+} from '../../utils/invalidation-header.js'
+import type { Cache } from '../../types/cache.js'
+
+describe('withInvalidation', () => {
+  const createMemoryCache = setupMemoryCaches()
+  let cache: Cache
+  let store: MemoryStore
+
+  async function setup() {
+    store = new MemoryStore()
+    cache = createMemoryCache({ store })
+
+    const postCache = cache.define({
+      name: 'post',
+      key: (id: string) => id,
+      tags: (id: string) => ['posts', `post:${id}`],
+      fetch: async (id: string) => ({ id }),
+    })
+    const feedCache = cache.define({
+      name: 'feed',
+      key: (page: number) => String(page),
+      fetch: async (page: number) => [page],
+    })
+
+    await postCache.get('1')
+    await postCache.get('2')
+    await feedCache.get(1)
+    return { postCache, feedCache }
+  }
+
+  it('should invalidate tags and definitions after the action', async () => {
+    const { feedCache } = await setup()
+    const publish = vi.spyOn(store, 'publish')
+
+    const action = withInvalidation(
+      cache,
+      async ({ id }: { id: string }) => Response.json({ updated: id }),
+      {
+        tags: (_result, { id }) => [`post:${id}`],
+        definitions: [feedCache],
+      }
+    )
+    const response = await action({ id: '1' })
+
+    expect(readInvalidationData(await response.json())).toMatchObject({
+      tags: ['post:1'],
+    })
+    expect(await store.get('remix-cache:post:1')).toBeNull()
+    expect(await store.get('remix-cache:post:2')).not.toBeNull()
+    expect(await store.get('remix-cache:feed:1')).toBeNull()
+
+    // One pub/sub message for everything
+    expect(publish).toHaveBeenCalledTimes(1)
+    expect(
+      decodeInvalidationHeader(response.headers.get('X-Cache-Invalidate')!)
+    ).toMatchObject({
+      tags: ['post:1'],
+      keys: expect.arrayContaining([
+        'remix-cache:post:1',
+        'remix-cache:feed:1',
+      ]),
+    })
+  })
+
+  it('should list the invalidations in plain object results', async () => {
+    await setup()
+    const updatedAt = new Date(1000)
+    const action = withInvalidation(cache, async () => ({ updatedAt }), {
+      tags: () => ['posts'],
+    })
+
+    const result = await action({})
+
+    expect(result.updatedAt).toBe(updatedAt)
+    expect(readInvalidationData(result)).toMatchObject({
+      tags: ['posts'],
+      keys: ['remix-cache:post:1', 'remix-cache:post:2'],
+    })
+    expect(await store.get('remix-cache:post:1')).toBeNull()
+
+    // Arrays and other values can't carry them, so pass through as is
+    const list = [updatedAt]
+    const listAction = withInvalidation(cache, async () => list, {
+      tags: () => ['posts'],
+    })
+    expect(await listAction({})).toBe(list)
+  })
+
+  it('should keep bodies that are not JSON objects', async () => {
+    await setup()
+    const action = withInvalidation(
+      cache,
+      async () => new Response('saved', { headers: { 'Content-Length': '5' } }),
+      { tags: () => ['posts'] }
+    )
+
+    const response = await action({})
+
+    expect(await response.text()).toBe('saved')
+    expect(response.headers.get('Content-Length')).toBe('5')
+    expect(response.headers.get('X-Cache-Invalidate')).not.toBeNull()
+  })
+
+  it('should leave keys out of oversized headers', async () => {
+    const { postCache } = await setup()
+    await postCache.setMany(
+      Array.from({ length: 200 }, (_, i) => ({
+        args: [String(i)] as [string],
+        value: { id: String(i) },
+      }))
+    )
+    const action = withInvalidation(cache, async () => new Response(null), {
+      tags: () => ['posts'],
+    })
+
+    const header = (await action({})).headers.get('X-Cache-Invalidate')!
+
+    expect(header.length).toBeLessThanOrEqual(2048)
+    expect(decodeInvalidationHeader(header)).toMatchObject({
+      tags: [],
+      keys: [],
+      truncated: true,
+    })
+  })
+
+  it('should keep Response status and headers', async () => {
+    await setup()
+    const action = withInvalidation(
+      cache,
+      async () =>
+        new Response(null, { status: 302, headers: { Location: '/posts' } }),
+      { tags: () => ['posts'] }
+    )
+
+    const response = await action({})
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('Location')).toBe('/posts')
+    expect(response.headers.get('X-Cache-Invalidate')).not.toBeNull()
+    expect(await store.get('remix-cache:post:2')).toBeNull()
+  })
+
+  it('should not invalidate after a failed action', async () => {
+    await setup()
+    const tags = vi.fn(() => ['posts'])
+
+    const rejecting = withInvalidation(
+      cache,
+      async () => {
+        throw new Error('validation failed')
+      },
+      { tags }
+    )
+    await expect(rejecting({})).rejects.toThrow('validation failed')
+
+    const badRequest = withInvalidation(
+      cache,
+      async () => new Response('invalid', { status: 400 }),
+      { tags }
+    )
+    const response = await badRequest({})
+
+    expect(response.status).toBe(400)
+    expect(response.headers.get('X-Cache-Invalidate')).toBeNull()
+    expect(tags).not.toHaveBeenCalled()
+    expect(await store.get('remix-cache:post:1')).not.toBeNull()
+  })
+
+  it('should emit one invalidate event for a batch', async () => {
+    await setup()
+    const events: unknown[] = []
+    cache.on('invalidate', (event) => events.push(event))
+
+    const summary = await cache.invalidateBatch({
+      tags: ['posts'],
+      patterns: ['feed:*'],
+    })
+
+    expect(summary.tags).toEqual(['posts'])
+    expect(summary.keys).toHaveLength(3)
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ tags: ['posts'] })
+  })
+})
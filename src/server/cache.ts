@@ -1,10 +1,18 @@
 import { EventEmitter } from 'node:events'
-import type { Redis } from 'ioredis'
 import type {
   Cache,
   CacheConfig,
   CacheDefinitionConfig,
   CacheDefinition,
+  CacheHealth,
+  GcOptions,
+  GcResult,
+  InvalidationListener,
+  InvalidationPage,
+  InvalidationSummary,
+  InvalidationTargets,
+  ScheduledJob,
+  ScheduleOptions,
 } from '../types/cache.js'
 import type {
   CacheEventHandler,
@@ -15,31 +23,44 @@ import type {
   CacheErrorEvent,
   CircuitBreakerEvent,
 } from '../types/events.js'
-import { createRedisClients } from './redis-client.js'
+import type { CacheStore, EntryIndexLayout } from './store.js'
+import { RedisStore } from './redis-store.js'
 import { createSerializer, type Serializer } from './serializer.js'
-import { PubSubHandler } from './pubsub.js'
+import { PubSubHandler, compareStreamIds } from './pubsub.js'
 import { LocalCache } from './local-cache.js'
 import { VersionedCache } from './versioned-cache.js'
 import { TagManager } from './tag-manager.js'
+import { TagGenerations, recordedGenerations } from './tag-generations.js'
 import { PatternMatcher } from './pattern-matcher.js'
 import { CircuitBreaker } from './circuit-breaker.js'
+import { InvalidationLog } from './invalidation-log.js'
+import { DistributedLock } from './lock.js'
+import { Scheduler } from './scheduler.js'
 import { Deduplicator } from './deduplicator.js'
 import { detectMode } from '../utils/env-detect.js'
-import { CacheDefinitionImpl } from './definition.js'
+import {
+  CacheDefinitionImpl,
+  type CacheDefinitionOptions,
+} from './definition.js'
 
 export class CacheImpl extends EventEmitter implements Cache {
-  private redis: Redis
-  private subscriber: Redis
-  private publisher: Redis
+  private store: CacheStore
   private serializer: Serializer
   private pubsub?: PubSubHandler
+  private subscription?: Promise<void>
+  private invalidationListeners = new Set<InvalidationListener>()
   private localCache?: LocalCache
   private versionedCache?: VersionedCache
   private tagManager: TagManager
+  private tagGenerations?: TagGenerations
   private patternMatcher: PatternMatcher
   private circuitBreaker: CircuitBreaker
   private deduplicator: Deduplicator
-  private prefix: string
+  private invalidationLog: InvalidationLog
+  private lock: DistributedLock
+  private scheduler: Scheduler
+  readonly prefix: string
+  private definitionOptions: CacheDefinitionOptions
   private mode: 'server' | 'serverless'
   private debug: boolean
 
@@ -56,21 +77,43 @@ export class CacheImpl extends EventEmitter implements Cache {
     // Set prefix
     this.prefix = config.prefix || 'remix-cache'
 
+    // Settings shared by every definition
+    this.definitionOptions = {
+      hashTag: config.keyLayout === 'hash-tag',
+      errorStrategy: config.onError?.strategy || 'fallback',
+      staleTTL: config.onError?.staleTTL || 86400, // 24 hours
+      waitUntil: config.waitUntil,
+    }
+
     // Debug mode
     this.debug = config.debug || false
 
-    // Create Redis clients
-    const { client, subscriber, publisher } = createRedisClients(config.redis)
-    this.redis = client
-    this.subscriber = subscriber
-    this.publisher = publisher
+    // Use the configured store, or connect to Redis
+    if (config.store) {
+      this.store = config.store
+    } else if (config.redis) {
+      this.store = new RedisStore(config.redis)
+    } else {
+      throw new Error('createCache requires either `redis` or `store`')
+    }
 
     // Create serializer
     this.serializer = createSerializer(config.serializer || 'superjson')
 
     // Create tag and pattern managers
-    this.tagManager = new TagManager(this.redis, this.prefix)
-    this.patternMatcher = new PatternMatcher(this.redis, this.prefix)
+    this.tagManager = new TagManager(
+      this.store,
+      this.prefix,
+      this.definitionOptions.hashTag
+    )
+    this.patternMatcher = new PatternMatcher(
+      this.store,
+      this.prefix,
+      this.definitionOptions.hashTag
+    )
+    if (config.tagStrategy === 'generation') {
+      this.tagGenerations = new TagGenerations(this.store, this.prefix)
+    }
 
     // Create circuit breaker
     const cbConfig = config.onError?.circuitBreaker
@@ -82,21 +125,63 @@ export class CacheImpl extends EventEmitter implements Cache {
 
     // Set error handler for circuit breaker
     this.circuitBreaker.setErrorHandler((error) => {
-      this.emit('error', {
-        error,
+      this.emitError(error)
+    })
+
+    // Report state changes so alerting can watch the breaker
+    this.circuitBreaker.setTransitionHandler((state, previousState) => {
+      const event: CircuitBreakerEvent = {
+        state,
+        previousState,
+        failures: this.circuitBreaker.getFailures(),
+        nextAttempt: this.circuitBreaker.getNextAttempt() ?? undefined,
         timestamp: Date.now(),
-      })
+      }
+      this.log('Circuit breaker state changed', event)
+
+      if (state === 'open') {
+        this.emit('circuitOpen', event)
+      } else if (state === 'closed') {
+        this.emit('circuitClosed', event)
+      } else {
+        this.emit('circuitHalfOpen', event)
+      }
     })
 
     // Create deduplicator
     this.deduplicator = new Deduplicator()
 
+    // Cross-instance locks and scheduled warming
+    this.lock = new DistributedLock(this.store, this.prefix)
+    this.scheduler = new Scheduler(
+      this.store,
+      this.prefix,
+      this.lock,
+      (error) => this.emitError(error, 'schedule')
+    )
+
+    // Pub/sub is on by default in server mode. Serverless instances only
+    // publish when it is enabled explicitly, for direct SSE subscribers.
+    const pubsubEnabled =
+      this.mode === 'server'
+        ? config.pubsub?.enabled !== false
+        : config.pubsub?.enabled === true
+    if (pubsubEnabled) {
+      this.pubsub = new PubSubHandler(this.store, {
+        prefix: this.prefix,
+        channels: config.pubsub?.channels,
+        transport: config.pubsub?.transport,
+        streamMaxLength: config.pubsub?.streamMaxLength,
+        streamStartId: config.pubsub?.streamStartId,
+        onError: (error) => this.emitError(error, 'pubsub'),
+      })
+    }
+
     // Mode-specific setup
     if (this.mode === 'server') {
       // Server mode: pub/sub + local cache
-      if (config.pubsub?.enabled !== false) {
-        this.pubsub = new PubSubHandler(this.subscriber, this.publisher)
-        this.setupPubSub()
+      if (this.pubsub) {
+        this.setupPubSub().catch((error) => this.emitError(error, 'pubsub'))
       }
 
       if (config.local?.enabled !== false) {
@@ -105,12 +190,27 @@ export class CacheImpl extends EventEmitter implements Cache {
     } else {
       // Serverless mode: versioned cache
       this.versionedCache = new VersionedCache(
-        this.redis,
+        this.store,
         this.serializer,
         this.prefix
       )
     }
 
+    // Record this instance's invalidations for polling clients. Events
+    // relayed from other instances carry an origin and were logged there.
+    this.invalidationLog = new InvalidationLog(this.store, this.prefix)
+    if (
+      config.revalidation?.enabled !== false &&
+      config.revalidation?.transport === 'polling'
+    ) {
+      this.on('invalidate', (event) => {
+        if (event.origin) return
+        this.invalidationLog
+          .append(event)
+          .catch((error) => this.emitError(error, 'revalidation'))
+      })
+    }
+
     // Setup event hooks
     if (config.hooks) {
       if (config.hooks.onHit) this.on('hit', config.hooks.onHit)
@@ -124,28 +224,43 @@ export class CacheImpl extends EventEmitter implements Cache {
     this.log('Cache initialized', { mode: this.mode, prefix: this.prefix })
   }
 
-  private setupPubSub(): void {
-    if (!this.pubsub) return
-
-    this.pubsub.subscribe((channel, event) => {
-      this.log('Received invalidation event', { channel, event })
-
-      // Clear local cache if we have one
-      if (this.localCache) {
-        if (event.key) {
-          this.localCache.delete(event.key)
-        } else if (event.tag && event.keys) {
-          this.localCache.deleteByTag(event.tag, event.keys)
-        } else if (event.pattern && event.keys) {
-          for (const key of event.keys) {
-            this.localCache.delete(key)
+  private setupPubSub(): Promise<void> {
+    if (!this.pubsub) return Promise.resolve()
+    if (this.subscription) return this.subscription
+
+    const pubsub = this.pubsub
+    this.subscription = pubsub.subscribe(
+      (channel, event, id) => {
+        // Direct subscribers get every invalidation, including our own
+        for (const listener of this.invalidationListeners) {
+          listener(event, id)
+        }
+
+        if (event.origin === pubsub.instanceId) return
+
+        this.log('Received invalidation event', { channel, event })
+
+        // Clear local cache if we have one
+        if (this.localCache) {
+          if (event.key) {
+            this.localCache.delete(event.key)
+          } else if (event.tag && event.keys) {
+            this.localCache.deleteByTag(event.tag, event.keys)
+          } else if (event.keys) {
+            for (const key of event.keys) {
+              this.localCache.delete(key)
+            }
           }
+          this.evictLocalTags(event.tag ? [event.tag] : event.tags || [])
         }
-      }
 
-      // Emit event for observability
-      this.emit('invalidate', event)
-    })
+        // Emit event for observability
+        this.emit('invalidate', event)
+      },
+      { includeOwn: true }
+    )
+
+    return this.subscription
   }
 
   define<TArgs extends any[], TData>(
@@ -153,15 +268,18 @@ export class CacheImpl extends EventEmitter implements Cache {
   ): CacheDefinition<TArgs, TData> {
     return new CacheDefinitionImpl(
       config,
-      this.redis,
+      this.store,
       this.serializer,
       this.prefix,
+      this.definitionOptions,
       this.mode,
       this.deduplicator,
+      this.lock,
       this.circuitBreaker,
       this.localCache,
       this.versionedCache,
       this.tagManager,
+      this.tagGenerations,
       this.patternMatcher,
       this.pubsub,
       this
@@ -169,23 +287,31 @@ export class CacheImpl extends EventEmitter implements Cache {
   }
 
   async invalidateTag(tag: string): Promise<void> {
+    if (tag.endsWith(':*')) {
+      return this.invalidateTagPrefix(tag.slice(0, -2))
+    }
+
     this.log('Invalidating tag', { tag })
 
-    // Get all keys with this tag
-    const keys = await this.tagManager.getKeysByTag(tag)
+    if (this.tagGenerations) {
+      // One INCR outdates every entry with the tag; keys stay unknown
+      await this.tagGenerations.bump([tag])
+      this.evictLocalTags([tag])
+      if (this.pubsub) {
+        await this.pubsub.publishTagInvalidation(tag, [])
+      }
+      this.emit('invalidate', { tag, keys: [], timestamp: Date.now() })
+      return
+    }
+
+    // Delete tagged keys and their index entries (versioned in serverless)
+    const keys = await this.tagManager.invalidateTag(tag, this.indexLayout())
 
     if (keys.length === 0) {
       this.log('No keys found for tag', { tag })
       return
     }
 
-    // Delete all keys (versioned in serverless, direct in server mode)
-    if (this.mode === 'serverless' && this.versionedCache) {
-      await this.versionedCache.invalidateMany(keys)
-    } else {
-      await this.redis.del(...keys)
-    }
-
     // Delete from local cache
     if (this.localCache) {
       this.localCache.deleteByTag(tag, keys)
@@ -196,31 +322,29 @@ export class CacheImpl extends EventEmitter implements Cache {
       await this.pubsub.publishTagInvalidation(tag, keys)
     }
 
-    // Clean up tag index
-    await this.tagManager.deleteTag(tag)
-
     // Emit event
     this.emit('invalidate', { tag, keys, timestamp: Date.now() })
   }
 
+  async invalidateTagPrefix(parent: string): Promise<void> {
+    this.log('Invalidating tag prefix', { parent })
+    await this.invalidateBatch({ tags: [`${parent}:*`] })
+  }
+
   async invalidatePattern(pattern: string): Promise<void> {
     this.log('Invalidating pattern', { pattern })
 
-    // Get all keys matching pattern
-    const keys = await this.patternMatcher.getKeysByPattern(pattern)
+    // Delete matching keys and their index entries (versioned in serverless)
+    const keys = await this.patternMatcher.invalidatePattern(
+      pattern,
+      this.indexLayout()
+    )
 
     if (keys.length === 0) {
       this.log('No keys found for pattern', { pattern })
       return
     }
 
-    // Delete all keys (versioned in serverless, direct in server mode)
-    if (this.mode === 'serverless' && this.versionedCache) {
-      await this.versionedCache.invalidateMany(keys)
-    } else {
-      await this.redis.del(...keys)
-    }
-
     // Delete from local cache
     if (this.localCache) {
       for (const key of keys) {
@@ -242,8 +366,8 @@ export class CacheImpl extends EventEmitter implements Cache {
 
     if (keys.length === 0) return
 
-    // Delete from Redis
-    await this.redis.del(...keys)
+    // Delete from store along with their index entries
+    await this.tagManager.invalidateKeys(keys, this.indexLayout())
 
     // Delete from local cache
     if (this.localCache) {
@@ -263,6 +387,137 @@ export class CacheImpl extends EventEmitter implements Cache {
     this.emit('invalidate', { keys, timestamp: Date.now() })
   }
 
+  async invalidateBatch(
+    targets: InvalidationTargets
+  ): Promise<InvalidationSummary> {
+    const { tags, descendants } = await this.expandTags(targets.tags || [])
+    const patterns = [...new Set(targets.patterns || [])]
+    this.log('Invalidating batch', { tags, patterns })
+
+    // Invalidate everything first so one message covers all of it
+    const layout = this.indexLayout()
+    const explicit = [...new Set(targets.keys || [])]
+    await this.tagManager.invalidateKeys(explicit, layout)
+    await this.tagGenerations?.bump(tags)
+    const resolved = await Promise.all([
+      ...(this.tagGenerations
+        ? []
+        : tags.map((tag) => this.tagManager.invalidateTag(tag, layout))),
+      ...patterns.map((pattern) =>
+        this.patternMatcher.invalidatePattern(pattern, layout)
+      ),
+    ])
+    const keys = [...new Set([...explicit, ...resolved.flat()])]
+    // Forget registered tags only once they are invalidated, so a failed
+    // run leaves them for the next wildcard invalidation
+    await Promise.all(
+      [...descendants].map(([parent, found]) =>
+        this.tagManager.removeDescendants(parent, found)
+      )
+    )
+
+    if (tags.length === 0 && keys.length === 0) return { tags, keys }
+
+    if (this.localCache) {
+      for (const key of keys) {
+        this.localCache.delete(key)
+      }
+    }
+    this.evictLocalTags(tags)
+
+    if (this.pubsub) {
+      await this.pubsub.publishBatchInvalidation(tags, keys)
+    }
+
+    this.emit('invalidate', { tags, keys, timestamp: Date.now() })
+    return { tags, keys }
+  }
+
+  async gc(options: GcOptions = {}): Promise<GcResult> {
+    const batchSize = Math.max(1, options.batchSize ?? 100)
+    this.log('Pruning tag index', { batchSize })
+
+    // Serverless entries live under their current version
+    const versionedCache = this.versionedCache
+    const exists = versionedCache
+      ? (keys: string[]) => versionedCache.exists(keys)
+      : (keys: string[]) => this.store.exists(keys)
+
+    return this.tagManager.prune(exists, batchSize)
+  }
+
+  async readInvalidations(cursor?: string): Promise<InvalidationPage> {
+    return this.invalidationLog.read(cursor)
+  }
+
+  schedule<TArgs extends any[], TData>(
+    definition: CacheDefinition<TArgs, TData>,
+    options: ScheduleOptions<TArgs>
+  ): ScheduledJob {
+    if (this.mode !== 'server') {
+      throw new Error('cache.schedule requires server mode')
+    }
+    return this.scheduler.schedule(definition, options)
+  }
+
+  async subscribeInvalidations(
+    handler: InvalidationListener,
+    options: { lastEventId?: string } = {}
+  ): Promise<() => void> {
+    if (!this.pubsub) {
+      throw new Error('subscribeInvalidations requires pub/sub to be enabled')
+    }
+    await this.setupPubSub()
+
+    // Buffer live events until the replay is delivered, then drop any
+    // the replay already covered
+    let replaying = options.lastEventId !== undefined
+    let lastId = options.lastEventId
+    const buffered: Array<[CacheInvalidateEvent, string | undefined]> = []
+
+    const listener: InvalidationListener = (event, id) => {
+      if (replaying) {
+        buffered.push([event, id])
+      } else if (!id || !lastId || compareStreamIds(id, lastId) > 0) {
+        handler(event, id)
+      }
+    }
+    this.invalidationListeners.add(listener)
+    const unsubscribe = () => {
+      this.invalidationListeners.delete(listener)
+    }
+
+    if (options.lastEventId !== undefined) {
+      try {
+        for (const { id, event } of await this.pubsub.replay(
+          options.lastEventId
+        )) {
+          handler(event, id)
+          lastId = id
+        }
+      } catch (error) {
+        unsubscribe()
+        throw error
+      }
+
+      replaying = false
+      for (const [event, id] of buffered) listener(event, id)
+    }
+
+    return unsubscribe
+  }
+
+  getHealth(): CacheHealth {
+    return {
+      mode: this.mode,
+      circuit: {
+        state: this.circuitBreaker.getState(),
+        failures: this.circuitBreaker.getFailures(),
+        nextRetryAt: this.circuitBreaker.getNextAttempt(),
+      },
+    }
+  }
+
   // EventEmitter overrides for type safety
   override on(event: 'hit', handler: CacheEventHandler<CacheHitEvent>): this
   override on(event: 'miss', handler: CacheEventHandler<CacheMissEvent>): this
@@ -276,7 +531,7 @@ export class CacheImpl extends EventEmitter implements Cache {
     handler: CacheEventHandler<CacheErrorEvent>
   ): this
   override on(
-    event: 'circuitOpen' | 'circuitClosed',
+    event: 'circuitOpen' | 'circuitClosed' | 'circuitHalfOpen',
     handler: CacheEventHandler<CircuitBreakerEvent>
   ): this
   override on(event: string, handler: CacheEventHandler): this {
@@ -291,6 +546,58 @@ export class CacheImpl extends EventEmitter implements Cache {
     return super.emit(event, data)
   }
 
+  /**
+   * Report an error event. EventEmitter throws on 'error' without a
+   * listener, which would turn a handled failure into a crash.
+   */
+  private emitError(error: Error, operation?: string): void {
+    if (this.listenerCount('error') === 0) return
+    this.emit('error', { error, operation, timestamp: Date.now() })
+  }
+
+  /**
+   * Resolve `parent:*` wildcards to the parent and every tag below it.
+   * `descendants` maps each wildcard's parent to the registered tags found.
+   */
+  private async expandTags(
+    tags: string[]
+  ): Promise<{ tags: string[]; descendants: Map<string, string[]> }> {
+    const descendants = new Map<string, string[]>()
+    const expanded = await Promise.all(
+      tags.map(async (tag) => {
+        if (!tag.endsWith(':*')) return [tag]
+
+        const parent = tag.slice(0, -2)
+        const found = await this.tagManager.getDescendants(parent)
+        descendants.set(parent, found)
+        return [parent, ...found]
+      })
+    )
+    return { tags: [...new Set(expanded.flat())], descendants }
+  }
+
+  /**
+   * Generation-based tags carry no keys, so drop local entries that
+   * recorded any of the tags
+   */
+  private evictLocalTags(tags: string[]): void {
+    if (!this.tagGenerations || !this.localCache || tags.length === 0) return
+
+    this.localCache.deleteWhere((value) => {
+      const recorded = recordedGenerations(value)
+      return !!recorded && tags.some((tag) => tag in recorded)
+    })
+  }
+
+  /**
+   * Index layout for store-side invalidation; serverless entries are
+   * invalidated by bumping their version
+   */
+  private indexLayout(): EntryIndexLayout {
+    const layout = this.tagManager.indexLayout()
+    return this.versionedCache ? this.versionedCache.versioned(layout) : layout
+  }
+
   private log(message: string, data?: any): void {
     if (this.debug) {
       console.log(`[remix-cache] ${message}`, data || '')
@@ -300,7 +607,11 @@ export class CacheImpl extends EventEmitter implements Cache {
   async close(): Promise<void> {
     this.log('Closing cache connections')
 
+    // Stop scheduled jobs
+    this.scheduler.stopAll()
+
     // Unsubscribe from pub/sub
+    this.invalidationListeners.clear()
     if (this.pubsub) {
       try {
         await this.pubsub.unsubscribe()
@@ -312,24 +623,7 @@ export class CacheImpl extends EventEmitter implements Cache {
     // Wait a tick to let any pending operations complete
     await new Promise(resolve => setImmediate(resolve))
 
-    // Quit all Redis connections gracefully and wait for completion
-    try {
-      await this.redis.quit()
-    } catch (e) {
-      this.redis.disconnect()
-    }
-
-    try {
-      await this.subscriber.quit()
-    } catch (e) {
-      this.subscriber.disconnect()
-    }
-
-    try {
-      await this.publisher.quit()
-    } catch (e) {
-      this.publisher.disconnect()
-    }
+    await this.store.close()
   }
 }
 
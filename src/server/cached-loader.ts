@@ -0,0 +1,141 @@
+import type { Cache } from '../types/cache.js'
+
+/**
+ * The parts of Remix's `LoaderFunctionArgs` a cached loader reads
+ */
+export interface CachedLoaderArgs {
+  request: Request
+  params: Record<string, string | undefined>
+}
+
+export interface CachedLoaderOptions<TArgs extends CachedLoaderArgs> {
+  /**
+   * Definition name the entries are stored under, e.g. for
+   * `cache.invalidatePattern('loader:*')` (default 'loader')
+   */
+  name?: string
+  key: (args: TArgs) => string
+  tags?: (args: TArgs) => string[]
+  /**
+   * Seconds to keep the loader result
+   */
+  ttl?: number
+  /**
+   * Request headers and cookies whose values are part of the cache key,
+   * e.g. `{ headers: ['accept-language'], cookies: ['theme'] }`
+   */
+  vary?: {
+    headers?: string[]
+    cookies?: string[]
+  }
+}
+
+/**
+ * A stored loader result: returned data, or the parts of a Response
+ */
+type CachedLoaderValue =
+  | { type: 'data'; data: unknown }
+  | {
+      type: 'response'
+      status: number
+      statusText: string
+      headers: Array<[string, string]>
+      body: string
+    }
+
+function parseCookies(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>()
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=')
+    if (index === -1) continue
+    cookies.set(part.slice(0, index).trim(), part.slice(index + 1).trim())
+  }
+  return cookies
+}
+
+function varyKey(
+  request: Request,
+  vary: CachedLoaderOptions<CachedLoaderArgs>['vary']
+): string {
+  const parts: string[] = []
+  for (const name of vary?.headers || []) {
+    const value = request.headers.get(name) ?? ''
+    parts.push(`h.${name.toLowerCase()}=${encodeURIComponent(value)}`)
+  }
+
+  const cookies = parseCookies(request.headers.get('Cookie'))
+  for (const name of vary?.cookies || []) {
+    parts.push(`c.${name}=${encodeURIComponent(cookies.get(name) ?? '')}`)
+  }
+
+  return parts.join('&')
+}
+
+/**
+ * Responses that are safe to replay to other requests: successful, not
+ * redirected, and not setting cookies
+ */
+async function toCachedValue(
+  result: unknown
+): Promise<CachedLoaderValue | undefined> {
+  if (!(result instanceof Response)) {
+    return result === undefined ? undefined : { type: 'data', data: result }
+  }
+  if (!result.ok || result.redirected || result.headers.has('Set-Cookie')) {
+    return undefined
+  }
+
+  return {
+    type: 'response',
+    status: result.status,
+    statusText: result.statusText,
+    headers: [...result.headers],
+    body: await result.clone().text(),
+  }
+}
+
+function fromCachedValue(value: CachedLoaderValue): unknown {
+  if (value.type === 'data') return value.data
+  return new Response(value.body, {
+    status: value.status,
+    statusText: value.statusText,
+    headers: value.headers,
+  })
+}
+
+/**
+ * Cache-aside wrapper for a whole Remix loader. The loader's return value
+ * (data or a Response) is stored under `options.key`, plus any headers and
+ * cookies it varies on, and served until its TTL runs out or it is
+ * invalidated by tag or pattern.
+ */
+export function cachedLoader<TArgs extends CachedLoaderArgs, TResult>(
+  cache: Cache,
+  options: CachedLoaderOptions<TArgs>,
+  loader: (args: TArgs) => TResult | Promise<TResult>
+): (args: TArgs) => Promise<TResult> {
+  const definition = cache.define<[string, TArgs], CachedLoaderValue>({
+    name: options.name || 'loader',
+    key: (key: string, _args: TArgs) => key,
+    tags: options.tags
+      ? (_key: string, args: TArgs) => options.tags!(args)
+      : undefined,
+    ttl: options.ttl,
+  })
+
+  return async function cachedLoaderFunction(args: TArgs): Promise<TResult> {
+    const vary = varyKey(args.request, options.vary)
+    const key = vary ? `${options.key(args)}?${vary}` : options.key(args)
+
+    const cached = await definition.get(key, args)
+    if (cached) return fromCachedValue(cached) as TResult
+
+    const result = await loader(args)
+    const value = await toCachedValue(result)
+    if (value) {
+      // Best effort: a failed write shouldn't fail the page
+      await definition.set(key, args, value).catch(() => undefined)
+    }
+    return result
+  }
+}
@@ -1,13 +1,16 @@
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
 /**
  * Circuit breaker prevents overwhelming a failing Redis instance
  * by temporarily failing fast after a threshold of errors.
  */
 export class CircuitBreaker {
-  private state: 'closed' | 'open' | 'half-open' = 'closed'
+  private state: CircuitState = 'closed'
   private failures = 0
   private nextAttempt = 0
   private halfOpenSuccesses = 0
   private onError?: (error: Error) => void
+  private onTransition?: (state: CircuitState, previous: CircuitState) => void
 
   constructor(
     private threshold = 5,
@@ -19,9 +22,18 @@ export class CircuitBreaker {
     this.onError = handler
   }
 
+  /**
+   * Called on every state change with the new and previous state
+   */
+  setTransitionHandler(
+    handler: (state: CircuitState, previous: CircuitState) => void
+  ): void {
+    this.onTransition = handler
+  }
+
   async execute<T>(
     fn: () => Promise<T>,
-    fallback: () => Promise<T>
+    fallback: (error?: Error) => Promise<T>
   ): Promise<T> {
     // Circuit is open, use fallback
     if (this.state === 'open') {
@@ -29,7 +41,7 @@ export class CircuitBreaker {
         return fallback()
       }
       // Time to test if service recovered
-      this.state = 'half-open'
+      this.transition('half-open')
       this.halfOpenSuccesses = 0
     }
 
@@ -42,7 +54,7 @@ export class CircuitBreaker {
       if (this.onError && error instanceof Error) {
         this.onError(error)
       }
-      return fallback()
+      return fallback(error instanceof Error ? error : undefined)
     }
   }
 
@@ -51,8 +63,8 @@ export class CircuitBreaker {
       this.halfOpenSuccesses++
       if (this.halfOpenSuccesses >= this.halfOpenRequests) {
         // Service recovered, close circuit
-        this.state = 'closed'
         this.failures = 0
+        this.transition('closed')
       }
     } else {
       this.failures = 0
@@ -63,19 +75,38 @@ export class CircuitBreaker {
     this.failures++
     if (this.failures >= this.threshold) {
       // Open circuit
-      this.state = 'open'
       this.nextAttempt = Date.now() + this.timeout
+      this.transition('open')
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state
+    this.state = state
+    if (previous !== state && this.onTransition) {
+      this.onTransition(state, previous)
     }
   }
 
-  getState(): 'closed' | 'open' | 'half-open' {
+  getState(): CircuitState {
     return this.state
   }
 
+  getFailures(): number {
+    return this.failures
+  }
+
+  /**
+   * When an open circuit will let the next request through, or null
+   */
+  getNextAttempt(): number | null {
+    return this.state === 'open' ? this.nextAttempt : null
+  }
+
   reset(): void {
-    this.state = 'closed'
     this.failures = 0
     this.nextAttempt = 0
     this.halfOpenSuccesses = 0
+    this.transition('closed')
   }
 }
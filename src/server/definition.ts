@@ -1,20 +1,94 @@
-import type Redis from 'ioredis'
-import type { CacheDefinitionConfig, CacheDefinition } from '../types/cache.js'
+import type {
+  CacheDefinitionConfig,
+  CacheDefinition,
+  CacheResult,
+  WarmOptions,
+  WarmResult,
+} from '../types/cache.js'
 import type { Serializer } from './serializer.js'
+import type { CacheStore, EntryIndexLayout } from './store.js'
 import type { Deduplicator } from './deduplicator.js'
+import type { DistributedLock } from './lock.js'
 import type { CircuitBreaker } from './circuit-breaker.js'
 import type { LocalCache } from './local-cache.js'
 import type { VersionedCache } from './versioned-cache.js'
 import type { TagManager } from './tag-manager.js'
+import type { TagGenerations } from './tag-generations.js'
 import type { PatternMatcher } from './pattern-matcher.js'
 import type { PubSubHandler } from './pubsub.js'
 import type { EventEmitter } from 'node:events'
+import type { ErrorStrategy } from '../types/config.js'
+import { CacheUnavailableError } from './errors.js'
 import { buildCacheKey } from '../utils/key-builder.js'
 
 interface CachedValueWithMeta<T> {
   data: T
+  storedAt?: number
   expiresAt?: number
   staleUntil?: number
+  /**
+   * Until when the value is still served if a refresh fails (`staleIfError`)
+   */
+  errorUntil?: number
+  /**
+   * Milliseconds the fetch took, for early recomputation
+   */
+  delta?: number
+  /**
+   * Generation of each tag when written ('generation' tag strategy)
+   */
+  tagGenerations?: Record<string, number>
+}
+
+/**
+ * Entries written per batch by `setMany` and `warm`
+ */
+const WRITE_CHUNK_SIZE = 1000
+
+/**
+ * How often instances waiting on a distributed fetch check for its result
+ */
+const LOCK_POLL_MS = 50
+
+/**
+ * Errors thrown by `config.fetch`, so recovery can tell them apart
+ * from store failures
+ */
+const fetchErrors = new WeakSet<object>()
+
+function markFetchError(error: unknown): void {
+  if (typeof error === 'object' && error !== null) fetchErrors.add(error)
+}
+
+function isFetchError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && fetchErrors.has(error)
+}
+
+interface UnwrappedValue<T> {
+  data: T
+  storedAt?: number
+  expiresAt?: number
+  staleUntil?: number
+  isStale: boolean
+  isPastStale: boolean
+  isEarly: boolean
+  servesOnError: boolean
+}
+
+type ResultSource = CacheResult<unknown>['source']
+
+type WarmOutcome<TArgs, TData> =
+  | { args: TArgs; value: TData | null | undefined }
+  | { args: TArgs; error: unknown }
+
+/**
+ * Cache-wide settings shared by every definition
+ */
+export interface CacheDefinitionOptions {
+  hashTag: boolean
+  errorStrategy: ErrorStrategy
+  staleTTL: number
+  waitUntil?: (promise: Promise<unknown>) => void
 }
 
 export class CacheDefinitionImpl<TArgs extends any[], TData>
@@ -22,23 +96,194 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
 {
   constructor(
     private config: CacheDefinitionConfig<TArgs, TData>,
-    private redis: Redis,
+    private store: CacheStore,
     private serializer: Serializer,
     private prefix: string,
+    private options: CacheDefinitionOptions,
     private mode: 'server' | 'serverless',
     private deduplicator: Deduplicator,
+    private lock: DistributedLock,
     private circuitBreaker: CircuitBreaker,
     private localCache: LocalCache | undefined,
     private versionedCache: VersionedCache | undefined,
     private tagManager: TagManager,
+    private tagGenerations: TagGenerations | undefined,
     private patternMatcher: PatternMatcher,
     private pubsub: PubSubHandler | undefined,
     private emitter: EventEmitter
   ) {}
 
+  get name(): string {
+    return this.config.name
+  }
+
+  /**
+   * Where entries and their indexes live; serverless entries are
+   * invalidated by bumping their version
+   */
+  private indexLayout(): EntryIndexLayout {
+    const layout = this.tagManager.indexLayout()
+    return this.mode === 'serverless' && this.versionedCache
+      ? this.versionedCache.versioned(layout)
+      : layout
+  }
+
   private buildKey(...args: TArgs): string {
     const keyPart = this.config.key(...args)
-    return buildCacheKey(this.prefix, this.config.name, keyPart)
+    return buildCacheKey(
+      this.prefix,
+      this.config.name,
+      keyPart,
+      this.options.hashTag
+    )
+  }
+
+  private getErrorStrategy(): ErrorStrategy {
+    return this.config.onError || this.options.errorStrategy
+  }
+
+  private shadowKey(key: string): string {
+    return `${this.prefix}:shadow:${key}`
+  }
+
+  /**
+   * Last known value for the 'stale' strategy: the local copy even if
+   * expired, otherwise the long-lived shadow copy in the store
+   */
+  private async getStaleValue(
+    key: string
+  ): Promise<
+    { value: UnwrappedValue<TData>; source: ResultSource } | undefined
+  > {
+    const local = this.localCache?.getStale(key)
+    if (local !== undefined) {
+      const value = this.unwrapValue(
+        local as TData | CachedValueWithMeta<TData>
+      )
+      return { value, source: 'local' }
+    }
+
+    try {
+      const shadow = await this.store.get(this.shadowKey(key))
+      if (shadow) {
+        const value = this.serializer.deserialize<
+          TData | CachedValueWithMeta<TData>
+        >(shadow)
+        return { value: this.unwrapValue(value), source: 'redis' }
+      }
+    } catch (e) {
+      // Store is unavailable too, nothing stale to serve
+    }
+
+    return undefined
+  }
+
+  /**
+   * Keep a long-lived copy for the 'stale' strategy
+   */
+  private async writeShadow(key: string, serialized: string): Promise<void> {
+    if (this.getErrorStrategy() !== 'stale') return
+    await this.store.set(this.shadowKey(key), serialized, this.options.staleTTL)
+  }
+
+  /**
+   * Apply the error strategy after a store (or fetch) failure
+   */
+  private async recover(
+    key: string,
+    args: TArgs,
+    error: unknown
+  ): Promise<CacheResult<TData>> {
+    const strategy = this.getErrorStrategy()
+
+    if (strategy === 'stale') {
+      const stale = await this.getStaleValue(key)
+      if (stale !== undefined) {
+        return this.toResult(args, stale.source, {
+          ...stale.value,
+          isStale: true,
+        })
+      }
+    }
+
+    if (isFetchError(error) && strategy !== 'fallback') {
+      throw error
+    }
+
+    if (strategy === 'throw') {
+      throw new CacheUnavailableError(key, { cause: error })
+    }
+
+    if (!this.config.fetch) return this.fetchedResult(args, null)
+
+    const data = await this.callFetch(...args)
+    if (data !== null && data !== undefined) {
+      // Best effort: the store may still be unavailable
+      await this.set(...([...args, data] as [...TArgs, TData])).catch(
+        () => undefined
+      )
+    }
+    return this.fetchedResult(args, data)
+  }
+
+  /**
+   * Describe a value read from the local cache or the store
+   */
+  private toResult(
+    args: TArgs,
+    source: ResultSource,
+    value: Pick<
+      UnwrappedValue<TData>,
+      'data' | 'storedAt' | 'expiresAt' | 'staleUntil' | 'isStale'
+    >
+  ): CacheResult<TData> {
+    const { data, storedAt, expiresAt, staleUntil, isStale } = value
+    return {
+      data,
+      source,
+      storedAt: storedAt ?? null,
+      expiresAt: expiresAt ?? null,
+      staleUntil: staleUntil ?? null,
+      isStale,
+      ttlRemaining:
+        expiresAt === undefined
+          ? null
+          : Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)),
+      tags: this.config.tags ? this.config.tags(...args) : [],
+    }
+  }
+
+  /**
+   * Describe a value just loaded by `fetch` (and written with a fresh TTL)
+   */
+  private fetchedResult(
+    args: TArgs,
+    data: TData | null | undefined
+  ): CacheResult<TData> {
+    if (data === null || data === undefined) {
+      return {
+        data: null,
+        source: 'fetch',
+        storedAt: null,
+        expiresAt: null,
+        staleUntil: null,
+        isStale: false,
+        ttlRemaining: null,
+        tags: [],
+      }
+    }
+
+    const { valueToStore } = this.wrapValue(data)
+    return this.toResult(args, 'fetch', { ...valueToStore, isStale: false })
+  }
+
+  private async callFetch(...args: TArgs): Promise<TData> {
+    try {
+      return await this.config.fetch!(...args)
+    } catch (error) {
+      markFetchError(error)
+      throw error
+    }
   }
 
   private getTTL(data?: TData): number | undefined {
@@ -64,23 +309,20 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
   private async resetTTL(key: string, data?: TData): Promise<void> {
     const ttl = this.getTTL(data)
     if (ttl && this.isSliding()) {
-      await this.redis.expire(key, ttl)
+      await this.store.expire(key, ttl)
     }
   }
 
   private unwrapValue(
     value: TData | CachedValueWithMeta<TData>
-  ): {
-    data: TData
-    isStale: boolean
-    isPastStale: boolean
-  } {
-    // Check if value has metadata structure
+  ): UnwrappedValue<TData> {
+    // Check if value has metadata structure; entries written before every
+    // value carried `storedAt` only have `expiresAt`
     if (
       value &&
       typeof value === 'object' &&
       'data' in value &&
-      'expiresAt' in value
+      ('storedAt' in value || 'expiresAt' in value)
     ) {
       const wrapped = value as CachedValueWithMeta<TData>
       const now = Date.now()
@@ -88,8 +330,13 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       const isPastStale = wrapped.staleUntil ? now > wrapped.staleUntil : false
       return {
         data: wrapped.data,
+        storedAt: wrapped.storedAt,
+        expiresAt: wrapped.expiresAt,
+        staleUntil: wrapped.staleUntil,
         isStale,
         isPastStale,
+        isEarly: !isStale && this.shouldRecomputeEarly(wrapped, now),
+        servesOnError: wrapped.errorUntil ? now <= wrapped.errorUntil : false,
       }
     }
 
@@ -98,63 +345,204 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       data: value as TData,
       isStale: false,
       isPastStale: false,
+      isEarly: false,
+      servesOnError: false,
     }
   }
 
-  async get(...args: TArgs): Promise<TData | null> {
-    const key = this.buildKey(...args)
-    const startTime = Date.now()
+  /**
+   * XFetch: recompute before expiry with a probability that rises as
+   * expiry nears and with how long the fetch takes, so one reader
+   * refreshes a hot key before the others all miss together
+   */
+  private shouldRecomputeEarly(
+    wrapped: CachedValueWithMeta<TData>,
+    now: number
+  ): boolean {
+    const beta = this.getEarlyRecomputeBeta()
+    if (!beta || !wrapped.delta || !wrapped.expiresAt) return false
+    return (
+      now - wrapped.delta * beta * Math.log(Math.random()) >= wrapped.expiresAt
+    )
+  }
+
+  private getEarlyRecomputeBeta(): number {
+    const { earlyRecompute } = this.config
+    if (earlyRecompute === true) return 1
+    return typeof earlyRecompute === 'number' ? earlyRecompute : 0
+  }
+
+  /**
+   * Refresh a key without blocking the caller; one refresh per key at a time
+   */
+  private revalidateInBackground(key: string, args: TArgs): void {
+    this.runInBackground(async () => {
+      await this.deduplicator.run(key, () => this.fetchAndCache(...args))
+    }, key)
+  }
+
+  /**
+   * Start background work, handing it to `waitUntil` when configured so
+   * serverless platforms keep the invocation alive until it settles
+   */
+  private runInBackground(task: () => Promise<void>, key?: string): void {
+    const promise = Promise.resolve()
+      .then(task)
+      .catch((error) => {
+        // The current value keeps being served; report failed fetches only
+        if (isFetchError(error)) this.emitError(error, 'fetch', key)
+      })
+    this.options.waitUntil?.(promise)
+  }
+
+  /**
+   * Report an error event. EventEmitter throws on 'error' without a
+   * listener, which would turn a handled failure into a crash.
+   */
+  private emitError(error: unknown, operation: string, key?: string): void {
+    if (this.emitter.listenerCount('error') === 0) return
+    this.emitter.emit('error', {
+      error: error as Error,
+      operation,
+      key,
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Fetch after a miss. With `staleIfError`, a failed fetch serves the
+   * value retained past its stale period instead of throwing.
+   */
+  private async fetchOrRetained(
+    key: string,
+    args: TArgs,
+    retained: UnwrappedValue<TData> | undefined
+  ): Promise<CacheResult<TData>> {
+    try {
+      return this.fetchedResult(args, await this.fetchOnMiss(key, args))
+    } catch (error) {
+      if (!retained || !isFetchError(error)) throw error
+      this.emitError(error, 'fetch', key)
+      return this.toResult(args, 'redis', retained)
+    }
+  }
+
+  private async getServerless(
+    key: string,
+    args: TArgs,
+    startTime: number
+  ): Promise<CacheResult<TData>> {
+    const [cached] = await this.readMany([key])
+    let retained: UnwrappedValue<TData> | undefined
+    if (cached) {
+      const value = this.unwrapValue(cached)
+      const { isStale, isPastStale, isEarly } = value
+
+      // Past the stale period counts as a miss
+      if (!isPastStale) {
+        if ((isStale || isEarly) && this.config.fetch) {
+          this.revalidateInBackground(key, args)
+        }
 
-    if (this.mode === 'serverless' && this.versionedCache) {
-      const data = await this.versionedCache.get<TData>(key)
-      if (data) {
         this.emitter.emit('hit', {
           key,
           latency: Date.now() - startTime,
           source: 'redis',
           timestamp: Date.now(),
         })
-        return data
+        return this.toResult(args, 'redis', value)
       }
+      if (value.servesOnError) retained = value
+    }
 
-      this.emitter.emit('miss', {
-        key,
-        latency: Date.now() - startTime,
-        timestamp: Date.now(),
-      })
+    this.emitter.emit('miss', {
+      key,
+      latency: Date.now() - startTime,
+      timestamp: Date.now(),
+    })
 
-      if (this.config.fetch) {
-        const fetched = await this.config.fetch(...args)
-        if (fetched !== null && fetched !== undefined) {
-          const ttl = this.getTTL(fetched)
-          await this.versionedCache.set(key, fetched, ttl)
-
-          // Track patterns and tags even in serverless mode
-          await this.patternMatcher.trackKey(key)
-          if (this.config.tags) {
-            const tags = this.config.tags(...args)
-            await this.tagManager.addTags(key, tags)
-          }
+    if (this.config.fetch) {
+      return this.fetchOrRetained(key, args, retained)
+    }
 
-          this.emitter.emit('set', {
-            key,
-            ttl,
-            size: this.serializer.serialize(fetched).length,
-            timestamp: Date.now(),
-          })
-        }
-        return fetched
+    return this.fetchedResult(args, null)
+  }
+
+  /**
+   * Fetch and cache after a miss. Concurrent misses for the key share one
+   * fetch in this process and, with `dedupe: 'distributed'`, across
+   * instances.
+   */
+  private fetchOnMiss(key: string, args: TArgs): Promise<TData | null> {
+    const load = () => this.fetchAndCache(...args)
+    const fetch =
+      this.config.dedupe === 'distributed'
+        ? () => this.fetchWithLock(key, load)
+        : load
+
+    if (this.config.dedupe === false) return fetch()
+    return this.deduplicator.run(key, fetch)
+  }
+
+  /**
+   * Fetch while holding a short store lock. Instances that lose the race
+   * poll for the holder's result, and fetch themselves if the lock is
+   * released without one (e.g. the holder died) or the wait times out.
+   */
+  private async fetchWithLock(
+    key: string,
+    load: () => Promise<TData | null>
+  ): Promise<TData | null> {
+    const lockName = `fetch:${key}`
+    const timeout = this.config.lockTimeout ?? 5000
+
+    const token = await this.lock.acquire(lockName, timeout)
+    if (token) {
+      try {
+        return await load()
+      } finally {
+        await this.lock.release(lockName, token).catch(() => false)
       }
+    }
+
+    const deadline = Date.now() + timeout
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS))
 
-      return null
+      const [cached] = await this.readMany([key])
+      if (cached !== null && cached !== undefined) {
+        const { data, isPastStale } = this.unwrapValue(cached)
+        if (!isPastStale) return data
+      }
+      if (!(await this.lock.isLocked(lockName))) break
+    }
+
+    return load()
+  }
+
+  async get(...args: TArgs): Promise<TData | null> {
+    return (await this.getWithMeta(...args)).data
+  }
+
+  async getWithMeta(...args: TArgs): Promise<CacheResult<TData>> {
+    const key = this.buildKey(...args)
+    const startTime = Date.now()
+
+    if (this.mode === 'serverless' && this.versionedCache) {
+      try {
+        return await this.getServerless(key, args, startTime)
+      } catch (error) {
+        return this.recover(key, args, error)
+      }
     }
 
     if (this.localCache) {
       const cached = this.localCache.get(key)
       if (cached !== undefined) {
-        const { data: unwrappedData, isStale, isPastStale } = this.unwrapValue(
+        const value = this.unwrapValue(
           cached as TData | CachedValueWithMeta<TData>
         )
+        const { data: unwrappedData, isStale, isPastStale, isEarly } = value
 
         // If past stale period, treat as miss and remove from local cache
         if (isPastStale) {
@@ -162,13 +550,7 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
           // Fall through to Redis/fetch logic
         } else if (isStale && this.config.fetch) {
           // Return stale data immediately and revalidate in background
-          Promise.resolve().then(async () => {
-            try {
-              await this.fetchAndCache(...args)
-            } catch (e) {
-              // Ignore background revalidation errors
-            }
-          })
+          this.revalidateInBackground(key, args)
 
           this.emitter.emit('hit', {
             key,
@@ -177,9 +559,13 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
             timestamp: Date.now(),
           })
 
-          return unwrappedData
+          return this.toResult(args, 'local', value)
         } else {
-          // Fresh data from local cache
+          // Fresh data from local cache, possibly due for early refresh
+          if (isEarly && this.config.fetch) {
+            this.revalidateInBackground(key, args)
+          }
+
           // Reset TTL in Redis if sliding window is enabled
           if (this.isSliding()) {
             await this.resetTTL(key, unwrappedData)
@@ -191,28 +577,19 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
             source: 'local',
             timestamp: Date.now(),
           })
-          return unwrappedData
+          return this.toResult(args, 'local', value)
         }
       }
     }
 
-    const fallback = async (): Promise<TData | null> => {
-      if (this.config.fetch) {
-        return this.fetchAndCache(...args)
-      }
-      return null
-    }
+    const fallback = (error?: Error): Promise<CacheResult<TData>> =>
+      this.recover(key, args, error)
 
     return this.circuitBreaker.execute(async () => {
-      let data: TData | null = null
-
-      const cached = await this.redis.get(key)
-      if (cached) {
-        const deserial = this.serializer.deserialize<
-          TData | CachedValueWithMeta<TData>
-        >(cached)
-        const { data: unwrappedData, isStale, isPastStale } =
-          this.unwrapValue(deserial)
+      const [deserial] = await this.readMany([key])
+      if (deserial) {
+        const value = this.unwrapValue(deserial)
+        const { data, isStale, isPastStale, isEarly } = value
 
         // If past stale period, treat as miss
         if (isPastStale) {
@@ -223,30 +600,19 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
           })
 
           if (this.config.fetch) {
-            if (this.config.dedupe !== false) {
-              data = await this.deduplicator.run(key, () =>
-                this.fetchAndCache(...args)
-              )
-            } else {
-              data = await this.fetchAndCache(...args)
-            }
+            return this.fetchOrRetained(
+              key,
+              args,
+              value.servesOnError ? value : undefined
+            )
           }
-          return data
+          return this.fetchedResult(args, null)
         }
 
         // If stale but within stale period, return stale and revalidate in background
         if (isStale && this.config.fetch) {
-          // Return stale data immediately
-          data = unwrappedData
-
           // Trigger background revalidation (don't await)
-          Promise.resolve().then(async () => {
-            try {
-              await this.fetchAndCache(...args)
-            } catch (e) {
-              // Ignore background revalidation errors
-            }
-          })
+          this.revalidateInBackground(key, args)
 
           this.emitter.emit('hit', {
             key,
@@ -255,11 +621,13 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
             timestamp: Date.now(),
           })
 
-          return data
+          return this.toResult(args, 'redis', value)
         }
 
-        // Fresh data
-        data = unwrappedData
+        // Fresh data, possibly due for early refresh
+        if (isEarly && this.config.fetch) {
+          this.revalidateInBackground(key, args)
+        }
 
         if (this.localCache && data) {
           const ttl = this.getTTL(data)
@@ -276,7 +644,7 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
           timestamp: Date.now(),
         })
 
-        return data
+        return this.toResult(args, 'redis', value)
       }
 
       this.emitter.emit('miss', {
@@ -286,51 +654,106 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       })
 
       if (this.config.fetch) {
-        if (this.config.dedupe !== false) {
-          data = await this.deduplicator.run(key, () =>
-            this.fetchAndCache(...args)
-          )
-        } else {
-          data = await this.fetchAndCache(...args)
-        }
+        return this.fetchedResult(args, await this.fetchOnMiss(key, args))
       }
 
-      return data
+      return this.fetchedResult(args, null)
     }, fallback)
   }
 
   private async fetchAndCache(...args: TArgs): Promise<TData | null> {
     if (!this.config.fetch) return null
 
-    const data = await this.config.fetch(...args)
+    // Generations from before the fetch, so an invalidation during it
+    // outdates the result
+    const generations = await this.currentGenerations(args)
+    const startTime = Date.now()
+    const data = await this.callFetch(...args)
 
     if (data !== null && data !== undefined) {
-      await this.set(...([...args, data] as [...TArgs, TData]))
+      await this.write(args, data, Date.now() - startTime, generations)
     }
 
     return data
   }
 
-  async set(...args: [...TArgs, TData]): Promise<void> {
-    const data = args[args.length - 1] as TData
-    const keyArgs = args.slice(0, -1) as TArgs
-    const key = this.buildKey(...keyArgs)
+  /**
+   * Wrap with metadata: when it was stored and, with a TTL, when it
+   * expires and how long it may still be served after that
+   */
+  private wrapValue(
+    data: TData,
+    delta?: number
+  ): {
+    ttl: number | undefined
+    valueToStore: CachedValueWithMeta<TData>
+    storeTTL: number | undefined
+  } {
     const ttl = this.getTTL(data)
+    const { staleWhileRevalidate = 0, staleIfError = 0 } = this.config
+    const now = Date.now()
 
-    // Wrap with metadata if staleWhileRevalidate is configured
-    let valueToStore: TData | CachedValueWithMeta<TData> = data
-    let storeTTL = ttl
+    // Sliding TTLs are extended in the store, so a fixed expiry only
+    // applies when a feature depends on it
+    if (
+      !ttl ||
+      (this.isSliding() &&
+        !staleWhileRevalidate &&
+        !staleIfError &&
+        !this.getEarlyRecomputeBeta())
+    ) {
+      return { ttl, valueToStore: { data, storedAt: now }, storeTTL: ttl }
+    }
 
-    if (this.config.staleWhileRevalidate && ttl) {
-      const now = Date.now()
-      valueToStore = {
+    const staleUntil = now + (ttl + staleWhileRevalidate) * 1000
+    return {
+      ttl,
+      valueToStore: {
         data,
+        storedAt: now,
         expiresAt: now + ttl * 1000,
-        staleUntil: now + (ttl + this.config.staleWhileRevalidate) * 1000,
-      }
-      // Store for TTL + staleWhileRevalidate duration
-      storeTTL = ttl + this.config.staleWhileRevalidate
+        staleUntil,
+        ...(staleIfError && { errorUntil: staleUntil + staleIfError * 1000 }),
+        ...(delta !== undefined && { delta }),
+      },
+      // Keep it through the stale period, then as long as staleIfError
+      storeTTL: ttl + staleWhileRevalidate + staleIfError,
     }
+  }
+
+  async set(...args: [...TArgs, TData]): Promise<void> {
+    const data = args[args.length - 1] as TData
+    const keyArgs = args.slice(0, -1) as TArgs
+    await this.write(keyArgs, data)
+  }
+
+  /**
+   * Current generations of the entry's tags ('generation' tag strategy)
+   */
+  private async currentGenerations(
+    args: TArgs
+  ): Promise<Record<string, number> | undefined> {
+    if (!this.tagGenerations || !this.config.tags) return undefined
+
+    const tags = this.config.tags(...args)
+    return tags.length > 0 ? this.tagGenerations.current(tags) : undefined
+  }
+
+  /**
+   * Store a value; `delta` is the fetch duration when it was just fetched,
+   * `generations` the tag generations read before fetching it
+   */
+  private async write(
+    keyArgs: TArgs,
+    data: TData,
+    delta?: number,
+    generations?: Record<string, number>
+  ): Promise<void> {
+    const key = this.buildKey(...keyArgs)
+    const { ttl, valueToStore, storeTTL } = this.wrapValue(data, delta)
+    const tagGenerations =
+      generations ?? (await this.currentGenerations(keyArgs))
+    if (tagGenerations) valueToStore.tagGenerations = tagGenerations
 
     const serialized = this.serializer.serialize(valueToStore)
 
@@ -339,11 +762,7 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       await this.versionedCache.set(key, valueToStore, storeTTL)
     } else {
       // Store in Redis
-      if (storeTTL) {
-        await this.redis.setex(key, storeTTL, serialized)
-      } else {
-        await this.redis.set(key, serialized)
-      }
+      await this.store.set(key, serialized, storeTTL)
 
       // Store in local cache
       if (this.localCache) {
@@ -351,13 +770,19 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       }
     }
 
+    await this.writeShadow(key, serialized)
+
     // Track for pattern matching
-    await this.patternMatcher.trackKey(key)
+    await this.patternMatcher.trackKey(key, this.config.name)
 
-    // Add tags if configured
+    // Add tags if configured; generations replace the index
     if (this.config.tags) {
       const tags = this.config.tags(...keyArgs)
-      await this.tagManager.addTags(key, tags)
+      if (this.tagGenerations) {
+        await this.tagManager.registerTags(tags, storeTTL)
+      } else {
+        await this.tagManager.setTags(key, tags, storeTTL)
+      }
     }
 
     this.emitter.emit('set', {
@@ -372,7 +797,16 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
     const key = this.buildKey(...args)
 
     if (this.mode === 'serverless' && this.versionedCache) {
-      await this.versionedCache.invalidate(key)
+      // Bumps the key's version and drops its tag index entries, like
+      // invalidateMany
+      await this.tagManager.invalidateKeys([key], this.indexLayout())
+
+      // Serverless instances only publish for direct SSE subscribers
+      if (this.pubsub) {
+        await this.pubsub.publishKeyInvalidation(key)
+      }
+
+      await this.patternMatcher.removeKey(key, this.config.name)
 
       this.emitter.emit('invalidate', {
         key,
@@ -381,7 +815,8 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       return
     }
 
-    await this.redis.del(key)
+    // Deletes the key along with its tag index entries
+    await this.tagManager.invalidateKeys([key])
 
     if (this.localCache) {
       this.localCache.delete(key)
@@ -391,17 +826,12 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
       await this.pubsub.publishKeyInvalidation(key)
     }
 
-    await this.patternMatcher.removeKey(key)
-
-    if (this.config.tags) {
-      const tags = this.config.tags(...args)
-      await this.tagManager.removeTags(key, tags)
-    }
+    await this.patternMatcher.removeKey(key, this.config.name)
 
     if (this.config.invalidates) {
       const keysToInvalidate = this.config.invalidates(...args)
       for (const k of keysToInvalidate) {
-        await this.redis.del(k)
+        await this.store.del([k])
         if (this.localCache) {
           this.localCache.delete(k)
         }
@@ -417,62 +847,341 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
   async getMany(keys: TArgs[]): Promise<Array<TData | null>> {
     if (keys.length === 0) return []
 
+    const startTime = Date.now()
     const fullKeys = keys.map((k) => this.buildKey(...k))
+    const results: Array<TData | null> = fullKeys.map(() => null)
+    const stale: number[] = []
+    // Values past their stale period kept by `staleIfError`
+    const retained = new Map<number, TData>()
+    let pending: number[] = []
+
+    // Local tier
+    for (let i = 0; i < fullKeys.length; i++) {
+      const key = fullKeys[i]!
+      const cached = this.localCache?.get(key)
+      if (cached === undefined) {
+        pending.push(i)
+        continue
+      }
 
-    // Get all from Redis
-    const values = await this.redis.mget(...fullKeys)
+      const { data, isStale, isPastStale, isEarly } = this.unwrapValue(
+        cached as TData | CachedValueWithMeta<TData>
+      )
+      if (isPastStale) {
+        this.localCache!.delete(key)
+        pending.push(i)
+        continue
+      }
 
-    return values.map((v) => (v ? this.serializer.deserialize<TData>(v) : null))
-  }
+      results[i] = data
+      if (isStale || isEarly) stale.push(i)
+      this.emitHit(key, startTime, 'local')
+    }
 
-  async setMany(entries: Array<{ args: TArgs; value: TData }>): Promise<void> {
-    if (entries.length === 0) return
+    // Store tier: one batched read for everything not held locally
+    if (pending.length > 0) {
+      const pendingKeys = pending.map((i) => fullKeys[i]!)
+      const read = await this.circuitBreaker.execute<{
+        values: Array<TData | CachedValueWithMeta<TData> | null>
+        failed?: boolean
+        error?: Error
+      }>(
+        async () => ({ values: await this.readMany(pendingKeys) }),
+        // Store unavailable: everything is a miss, then the error
+        // strategy decides how to serve them
+        async (error) => ({
+          values: pendingKeys.map(() => null),
+          failed: true,
+          error,
+        })
+      )
+
+      const missing: number[] = []
+      const hits: number[] = []
+      read.values.forEach((value, j) => {
+        const i = pending[j]!
+        const key = fullKeys[i]!
+        if (value === null) {
+          missing.push(i)
+          return
+        }
 
-    // Build pipeline for batch operations
-    const pipeline = this.redis.pipeline()
+        const { data, isStale, isPastStale, isEarly, servesOnError } =
+          this.unwrapValue(value)
+        if (isPastStale) {
+          if (servesOnError) retained.set(i, data)
+          missing.push(i)
+          return
+        }
 
-    for (const entry of entries) {
-      const key = this.buildKey(...entry.args)
-      const ttl = this.getTTL(entry.value)
-      const serialized = this.serializer.serialize(entry.value)
+        results[i] = data
+        if (isStale || isEarly) stale.push(i)
+        if (!isStale && this.localCache && data) {
+          this.localCache.set(key, value, this.getTTL(data))
+        }
+        hits.push(i)
+        this.emitHit(key, startTime, 'redis')
+      })
 
-      if (ttl) {
-        pipeline.setex(key, ttl, serialized)
-      } else {
-        pipeline.set(key, serialized)
+      // Reset TTLs if sliding window is enabled
+      if (this.isSliding() && this.mode === 'server' && hits.length > 0) {
+        const batch = this.store.batch()
+        for (const i of hits) {
+          const ttl = this.getTTL(results[i] ?? undefined)
+          if (ttl) batch.expire(fullKeys[i]!, ttl)
+        }
+        await batch.exec()
       }
 
-      // Track for pattern matching - use patternMatcher's logic
-      await this.patternMatcher.trackKey(key)
+      pending = read.failed
+        ? await this.recoverMany(missing, fullKeys, results, read.error)
+        : missing
+    }
 
-      // Add tags
-      if (this.config.tags) {
-        const tags = this.config.tags(...entry.args)
-        await this.tagManager.addTags(key, tags)
+    for (const i of pending) {
+      this.emitter.emit('miss', {
+        key: fullKeys[i],
+        latency: Date.now() - startTime,
+        timestamp: Date.now(),
+      })
+    }
+
+    // Fetch tier: load every miss together and write them back in a batch
+    if (pending.length > 0) {
+      let fetched: Array<PromiseSettledResult<TData | null | undefined>>
+      try {
+        fetched = await this.fetchMissing(
+          pending.map((i) => keys[i]!),
+          pending.map((i) => fullKeys[i]!)
+        )
+      } catch (error) {
+        // Serve retained values only if every miss has one
+        if (!isFetchError(error) || !pending.every((i) => retained.has(i))) {
+          throw error
+        }
+        for (const i of pending) {
+          results[i] = retained.get(i)!
+          this.emitError(error, 'fetch', fullKeys[i])
+        }
+        fetched = []
       }
+      const toSet: Array<{ args: TArgs; value: TData }> = []
+      fetched.forEach((result, j) => {
+        const i = pending[j]!
+        if (result.status === 'rejected') {
+          // Only this entry failed: serve its retained value or a miss
+          results[i] = retained.get(i) ?? null
+          this.emitError(result.reason, 'fetch', fullKeys[i])
+          return
+        }
+
+        const value = result.value
+        if (value === null || value === undefined) return
+        results[i] = value
+        toSet.push({ args: keys[i]!, value })
+      })
+      // Best effort: the store may still be unavailable
+      await this.setMany(toSet).catch((error) => this.emitError(error, 'set'))
+    }
+
+    // Serve stale (or due) entries now and refresh them in the background
+    if (stale.length > 0 && (this.config.fetchMany || this.config.fetch)) {
+      this.runInBackground(async () => {
+        const args = stale.map((i) => keys[i]!)
+        const staleKeys = stale.map((i) => fullKeys[i]!)
+        const fetched = await this.fetchMissing(args, staleKeys)
+        await this.setMany(
+          fetched.flatMap((result, j) => {
+            if (result.status === 'rejected') {
+              this.emitError(result.reason, 'fetch', staleKeys[j])
+              return []
+            }
+            return result.value === null || result.value === undefined
+              ? []
+              : [{ args: args[j]!, value: result.value }]
+          })
+        )
+      })
     }
 
-    await pipeline.exec()
+    return results
+  }
 
-    // Store in local cache and emit events
-    if (this.localCache) {
-      for (const entry of entries) {
-        const key = this.buildKey(...entry.args)
-        const ttl = this.getTTL(entry.value)
-        this.localCache.set(key, entry.value, ttl)
+  /**
+   * Apply the error strategy after the batched store read failed, like
+   * `recover` does for `get`: 'throw' rejects, 'stale' serves the last
+   * known values. Returns the indexes left to fetch.
+   */
+  private async recoverMany(
+    pending: number[],
+    fullKeys: string[],
+    results: Array<TData | null>,
+    error?: Error
+  ): Promise<number[]> {
+    const strategy = this.getErrorStrategy()
+    if (strategy === 'throw' && pending.length > 0) {
+      throw new CacheUnavailableError(fullKeys[pending[0]!]!, { cause: error })
+    }
+    if (strategy !== 'stale') return pending
+
+    const staleValues = await Promise.all(
+      pending.map((i) => this.getStaleValue(fullKeys[i]!))
+    )
+    return pending.filter((i, j) => {
+      const stale = staleValues[j]
+      if (stale === undefined) return true
+      results[i] = stale.value.data
+      return false
+    })
+  }
+
+  /**
+   * Batch-read raw values, from versioned keys in serverless mode.
+   * Values outdated by a tag generation are returned as null.
+   */
+  private async readMany(
+    keys: string[]
+  ): Promise<Array<TData | CachedValueWithMeta<TData> | null>> {
+    const values =
+      this.mode === 'serverless' && this.versionedCache
+        ? await this.versionedCache.getMany<TData | CachedValueWithMeta<TData>>(
+            keys
+          )
+        : (await this.store.mget(keys)).map((value) =>
+            value
+              ? this.serializer.deserialize<TData | CachedValueWithMeta<TData>>(
+                  value
+                )
+              : null
+          )
+    if (!this.tagGenerations) return values
+
+    // Entries with an invalidated tag read as misses
+    const outdated = await this.tagGenerations.outdated(values)
+    return values.map((value, i) => (outdated[i] ? null : value))
+  }
+
+  /**
+   * Load misses with `fetchMany` when configured, otherwise with `fetch`
+   * per entry (deduplicated like `get`). A failed `fetchMany` rejects;
+   * per-entry fetches settle independently, so one failure doesn't
+   * discard the rest.
+   */
+  private async fetchMissing(
+    argsList: TArgs[],
+    keys: string[]
+  ): Promise<Array<PromiseSettledResult<TData | null | undefined>>> {
+    if (this.config.fetchMany) {
+      let values: Array<TData | null | undefined>
+      try {
+        values = await this.config.fetchMany(argsList)
+      } catch (error) {
+        markFetchError(error)
+        throw error
       }
+      return values.map((value) => ({ status: 'fulfilled', value }))
+    }
+    if (!this.config.fetch) {
+      return argsList.map(() => ({ status: 'fulfilled', value: null }))
     }
 
-    // Emit set events for each entry
-    for (const entry of entries) {
-      const key = this.buildKey(...entry.args)
-      const ttl = this.getTTL(entry.value)
-      const serialized = this.serializer.serialize(entry.value)
+    return Promise.allSettled(
+      argsList.map((args, i) =>
+        this.config.dedupe !== false
+          ? this.deduplicator.run(keys[i]!, () => this.callFetch(...args))
+          : this.callFetch(...args)
+      )
+    )
+  }
+
+  private emitHit(
+    key: string,
+    startTime: number,
+    source: 'local' | 'redis'
+  ): void {
+    this.emitter.emit('hit', {
+      key,
+      latency: Date.now() - startTime,
+      source,
+      timestamp: Date.now(),
+    })
+  }
+
+  async setMany(entries: Array<{ args: TArgs; value: TData }>): Promise<void> {
+    for (let i = 0; i < entries.length; i += WRITE_CHUNK_SIZE) {
+      await this.writeChunk(entries.slice(i, i + WRITE_CHUNK_SIZE))
+    }
+  }
+
+  /**
+   * Write values, shadow copies, pattern index and tag index for a set
+   * of entries in a single batch
+   */
+  private async writeChunk(
+    entries: Array<{ args: TArgs; value: TData }>
+  ): Promise<void> {
+    if (entries.length === 0) return
+
+    const batch = this.store.batch()
+    const keys = entries.map((entry) => this.buildKey(...entry.args))
+    const shadow = this.getErrorStrategy() === 'stale'
+
+    // Versioned writes go to each key's current version
+    const storeKeys =
+      this.mode === 'serverless' && this.versionedCache
+        ? await this.versionedCache.resolveKeys(keys, batch)
+        : keys
+    const tagLists = entries.map((entry) =>
+      this.config.tags ? this.config.tags(...entry.args) : []
+    )
+    const generations = this.tagGenerations
+      ? await this.tagGenerations.current(tagLists.flat())
+      : undefined
+    const previousTags =
+      this.config.tags && !generations
+        ? await this.tagManager.getTags(keys)
+        : []
+
+    const written = entries.map((entry, i) => {
+      const key = keys[i]!
+      const { ttl, valueToStore, storeTTL } = this.wrapValue(entry.value)
+      if (generations && tagLists[i]!.length > 0) {
+        valueToStore.tagGenerations = Object.fromEntries(
+          tagLists[i]!.map((tag) => [tag, generations[tag] ?? 0])
+        )
+      }
+      const serialized = this.serializer.serialize(valueToStore)
+
+      batch.set(storeKeys[i]!, serialized, storeTTL)
+      if (shadow) {
+        batch.set(this.shadowKey(key), serialized, this.options.staleTTL)
+      }
+      this.patternMatcher.queueTrackKey(batch, key, this.config.name)
+      if (generations) {
+        this.tagManager.queueRegisterTags(batch, tagLists[i]!, storeTTL)
+      } else if (this.config.tags) {
+        this.tagManager.queueSetTags(
+          batch,
+          key,
+          tagLists[i]!,
+          storeTTL,
+          previousTags[i]
+        )
+      }
+
+      return { key, ttl, valueToStore, storeTTL, size: serialized.length }
+    })
+
+    await batch.exec()
+
+    for (const { key, ttl, valueToStore, storeTTL, size } of written) {
+      // Local cache only exists in server mode
+      this.localCache?.set(key, valueToStore, storeTTL)
 
       this.emitter.emit('set', {
         key,
         ttl,
-        size: serialized.length,
+        size,
         timestamp: Date.now(),
       })
     }
@@ -483,8 +1192,8 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
 
     const fullKeys = keys.map((k) => this.buildKey(...k))
 
-    // Delete from Redis
-    await this.redis.del(...fullKeys)
+    // Delete from store along with their tag index entries
+    await this.tagManager.invalidateKeys(fullKeys, this.indexLayout())
 
     // Delete from local cache
     if (this.localCache) {
@@ -502,34 +1211,110 @@ export class CacheDefinitionImpl<TArgs extends any[], TData>
   }
 
   async warm(
-    entries: Array<{ args: TArgs; value?: TData } | TArgs>
-  ): Promise<void> {
-    const toSet: Array<{ args: TArgs; value: TData }> = []
-
-    for (const entry of entries) {
-      if (Array.isArray(entry)) {
-        // It's just args, fetch the value
-        if (this.config.fetch) {
-          const value = await this.config.fetch(...entry)
-          if (value !== null && value !== undefined) {
-            toSet.push({ args: entry, value })
-          }
+    entries: Array<{ args: TArgs; value?: TData } | TArgs>,
+    options: WarmOptions = {}
+  ): Promise<WarmResult<TArgs>> {
+    const concurrency = Math.max(1, options.concurrency ?? 10)
+    const chunkSize = Math.max(1, options.chunkSize ?? WRITE_CHUNK_SIZE)
+    const result: WarmResult<TArgs> = {
+      total: entries.length,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      errors: [],
+    }
+
+    for (let start = 0; start < entries.length; start += chunkSize) {
+      const chunk = entries
+        .slice(start, start + chunkSize)
+        .map((entry) =>
+          Array.isArray(entry) ? { args: entry, value: undefined } : entry
+        )
+
+      const toSet: Array<{ args: TArgs; value: TData }> = []
+      const toFetch: TArgs[] = []
+      for (const entry of chunk) {
+        if (entry.value !== undefined) {
+          // Has both args and value
+          toSet.push({ args: entry.args, value: entry.value })
+        } else if (this.config.fetch || this.config.fetchMany) {
+          toFetch.push(entry.args)
+        } else {
+          result.skipped++
         }
-      } else if (entry.value !== undefined) {
-        // Has both args and value
-        toSet.push({ args: entry.args, value: entry.value })
-      } else {
-        // Has args but no value, fetch it
-        if (this.config.fetch) {
-          const value = await this.config.fetch(...entry.args)
-          if (value !== null && value !== undefined) {
-            toSet.push({ args: entry.args, value })
-          }
+      }
+
+      for (const outcome of await this.fetchForWarm(toFetch, concurrency)) {
+        if ('error' in outcome) {
+          result.failed++
+          result.errors.push({ args: outcome.args, error: outcome.error })
+        } else if (outcome.value === null || outcome.value === undefined) {
+          result.skipped++
+        } else {
+          toSet.push({ args: outcome.args, value: outcome.value })
+        }
+      }
+
+      try {
+        await this.setMany(toSet)
+        result.succeeded += toSet.length
+      } catch (error) {
+        result.failed += toSet.length
+        for (const entry of toSet) {
+          result.errors.push({ args: entry.args, error })
+        }
+      }
+
+      options.onProgress?.({
+        total: result.total,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        skipped: result.skipped,
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Fetch values to warm: one `fetchMany` call, or `fetch` calls with at
+   * most `concurrency` in flight
+   */
+  private async fetchForWarm(
+    argsList: TArgs[],
+    concurrency: number
+  ): Promise<Array<WarmOutcome<TArgs, TData>>> {
+    if (argsList.length === 0) return []
+
+    if (this.config.fetchMany) {
+      try {
+        const values = await this.config.fetchMany(argsList)
+        return argsList.map((args, i) => ({ args, value: values[i] }))
+      } catch (error) {
+        return argsList.map((args) => ({ args, error }))
+      }
+    }
+
+    const outcomes: Array<WarmOutcome<TArgs, TData>> = new Array(
+      argsList.length
+    )
+    let next = 0
+
+    const worker = async () => {
+      while (next < argsList.length) {
+        const i = next++
+        const args = argsList[i]!
+        try {
+          outcomes[i] = { args, value: await this.callFetch(...args) }
+        } catch (error) {
+          outcomes[i] = { args, error }
         }
       }
     }
 
-    // Use setMany for bulk insert
-    await this.setMany(toSet)
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, argsList.length) }, worker)
+    )
+    return outcomes
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Thrown when the cache backend cannot be reached and the error
+ * strategy is 'throw'. The underlying failure is available as `cause`.
+ */
+export class CacheUnavailableError extends Error {
+  constructor(
+    readonly key: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`Cache unavailable for key "${key}"`, options)
+    this.name = 'CacheUnavailableError'
+  }
+}
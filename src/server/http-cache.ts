@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto'
+import type { CacheResult } from '../types/cache.js'
+import { createSerializer, type Serializer } from './serializer.js'
+
+export interface CacheHeadersOptions {
+  /**
+   * 'private' keeps shared caches (CDNs, proxies) from storing the
+   * response, e.g. for per-user data (default 'public')
+   */
+  visibility?: 'public' | 'private'
+}
+
+export interface CacheHeadersInit extends CacheHeadersOptions {
+  /**
+   * The cache's `serializer` setting, so the ETag hashes the value as it
+   * is stored (default 'superjson', like `createCache`)
+   */
+  serializer?: 'json' | 'superjson' | Serializer
+}
+
+export interface CachedJsonInit extends ResponseInit, CacheHeadersOptions {
+  /**
+   * Result of `definition.getWithMeta` the response is derived from
+   */
+  cache: CacheResult<unknown>
+  /**
+   * Incoming request, checked for `If-None-Match`
+   */
+  request: Request
+}
+
+/**
+ * Strong ETag from a hash of the serialized value
+ */
+function computeETag(serialized: string): string {
+  return `"${createHash('sha1').update(serialized).digest('base64url')}"`
+}
+
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag)
+}
+
+function cacheControl(
+  meta: CacheResult<unknown>,
+  visibility: 'public' | 'private'
+): string {
+  if (meta.data === null) return 'no-store'
+
+  // Without a fixed TTL, clients revalidate every time (cheap with the ETag)
+  if (meta.storedAt === null || meta.expiresAt === null) {
+    return `${visibility}, no-cache`
+  }
+
+  const maxAge = Math.round((meta.expiresAt - meta.storedAt) / 1000)
+  const staleWindow =
+    meta.staleUntil === null
+      ? 0
+      : Math.round((meta.staleUntil - meta.expiresAt) / 1000)
+
+  return staleWindow > 0
+    ? `${visibility}, max-age=${maxAge}, stale-while-revalidate=${staleWindow}`
+    : `${visibility}, max-age=${maxAge}`
+}
+
+function buildHeaders(
+  meta: CacheResult<unknown>,
+  serialized: string,
+  options: CacheHeadersOptions
+): Headers {
+  const headers = new Headers({
+    'Cache-Control': cacheControl(meta, options.visibility || 'public'),
+    ETag: computeETag(serialized),
+  })
+
+  if (meta.storedAt !== null) {
+    const age = Math.max(0, Math.floor((Date.now() - meta.storedAt) / 1000))
+    headers.set('Age', String(age))
+    headers.set('Last-Modified', new Date(meta.storedAt).toUTCString())
+  }
+
+  return headers
+}
+
+/**
+ * HTTP caching headers for a cached value: `Cache-Control` from its TTL
+ * and stale period, `Age` and `Last-Modified` from when it was stored, and
+ * an `ETag` hashed from its serialized form.
+ */
+export function cacheHeaders(
+  meta: CacheResult<unknown>,
+  options: CacheHeadersInit = {}
+): Headers {
+  const serializer = createSerializer(options.serializer || 'superjson')
+  return buildHeaders(meta, serializer.serialize(meta.data), options)
+}
+
+/**
+ * JSON response with caching headers derived from `init.cache`. Answers
+ * with an empty 304 when the request's `If-None-Match` has the body's ETag.
+ */
+export function cachedJson(data: unknown, init: CachedJsonInit): Response {
+  const { cache, request, visibility, headers: extraHeaders, ...rest } = init
+  const body = JSON.stringify(data)
+
+  const headers = new Headers(extraHeaders)
+  buildHeaders(cache, body, { visibility }).forEach((value, name) =>
+    headers.set(name, value)
+  )
+
+  if (matchesETag(request.headers.get('If-None-Match'), headers.get('ETag')!)) {
+    return new Response(null, { ...rest, status: 304, headers })
+  }
+
+  headers.set('Content-Type', 'application/json; charset=utf-8')
+  return new Response(body, { ...rest, headers })
+}
@@ -0,0 +1,61 @@
+import type { CacheStore } from './store.js'
+import { compareStreamIds } from './pubsub.js'
+import type { CacheInvalidateEvent } from '../types/events.js'
+import type { InvalidationPage } from '../types/cache.js'
+
+const CURSOR_FORMAT = /^\d+-\d+$/
+
+/**
+ * Store-persisted log of invalidations for polling clients.
+ * Backed by a capped stream; the cursor is the ID of the last entry
+ * a client has seen, so every instance serves the same history.
+ */
+export class InvalidationLog {
+  private stream: string
+
+  constructor(
+    private store: CacheStore,
+    prefix: string,
+    private maxLength = 1000
+  ) {
+    this.stream = `${prefix}:invalidate:log`
+  }
+
+  async append(event: CacheInvalidateEvent): Promise<void> {
+    await this.store.xadd(this.stream, JSON.stringify(event), this.maxLength)
+  }
+
+  /**
+   * Read events after `cursor`. Without a valid cursor, returns no
+   * events and the current position to start polling from. When the
+   * cursor's entry was trimmed from the log, the page has `reset` set
+   * and starts over from the current position.
+   */
+  async read(cursor?: string, limit = 100): Promise<InvalidationPage> {
+    if (!cursor || !CURSOR_FORMAT.test(cursor)) {
+      return { events: [], cursor: await this.store.xlastId(this.stream) }
+    }
+
+    // Entries past the cursor may have been trimmed with it. '0-0', an
+    // empty log's position, reads from the start.
+    const [oldest] = await this.store.xread(this.stream, '0-0', { count: 1 })
+    if (cursor !== '0-0' && oldest && compareStreamIds(oldest.id, cursor) > 0) {
+      return {
+        events: [],
+        cursor: await this.store.xlastId(this.stream),
+        reset: true,
+      }
+    }
+
+    const entries = await this.store.xread(this.stream, cursor, {
+      count: limit,
+    })
+
+    return {
+      events: entries.map(
+        (entry) => JSON.parse(entry.message) as CacheInvalidateEvent
+      ),
+      cursor: entries[entries.length - 1]?.id ?? cursor,
+    }
+  }
+}
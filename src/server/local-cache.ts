@@ -1,4 +1,5 @@
 import { LRUCache } from 'lru-cache'
+import { patternToRegex } from '../utils/pattern-match.js'
 
 export interface LocalCacheConfig {
   maxSize?: number
@@ -21,6 +22,8 @@ export class LocalCache {
       ttl: config.ttl ? config.ttl * 1000 : undefined, // Convert to ms
       updateAgeOnGet: false,
       updateAgeOnHas: false,
+      // Keep expired entries around so getStale() can still serve them
+      noDeleteOnStaleGet: true,
     })
   }
 
@@ -28,6 +31,13 @@ export class LocalCache {
     return this.cache.get(key)
   }
 
+  /**
+   * Get a value even if its TTL has passed, as long as it is still held
+   */
+  getStale(key: string): CacheValue | undefined {
+    return this.cache.get(key, { allowStale: true })
+  }
+
   set(key: string, value: CacheValue, ttl?: number): void {
     this.cache.set(key, value, { ttl: ttl ? ttl * 1000 : undefined })
   }
@@ -37,7 +47,7 @@ export class LocalCache {
   }
 
   deleteByPattern(pattern: string): number {
-    const regex = this.patternToRegex(pattern)
+    const regex = patternToRegex(pattern)
     let count = 0
 
     for (const key of this.cache.keys()) {
@@ -60,6 +70,19 @@ export class LocalCache {
     return count
   }
 
+  /**
+   * Delete every entry whose value matches `predicate`
+   */
+  deleteWhere(predicate: (value: CacheValue) => boolean): number {
+    let count = 0
+    for (const [key, value] of this.cache.entries()) {
+      if (predicate(value) && this.cache.delete(key)) {
+        count++
+      }
+    }
+    return count
+  }
+
   clear(): void {
     this.cache.clear()
   }
@@ -67,10 +90,4 @@ export class LocalCache {
   get size(): number {
     return this.cache.size
   }
-
-  private patternToRegex(pattern: string): RegExp {
-    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-    const regex = escaped.replace(/\*/g, '.*')
-    return new RegExp(`^${regex}$`)
-  }
 }
@@ -0,0 +1,38 @@
+import { randomUUID } from 'node:crypto'
+import type { CacheStore } from './store.js'
+
+/**
+ * Store-backed mutual exclusion across instances. A lock expires on its
+ * own after `ttlMs`, so a crashed holder never blocks others for long.
+ */
+export class DistributedLock {
+  constructor(
+    private store: CacheStore,
+    private prefix: string
+  ) {}
+
+  /**
+   * Try to take the lock; resolves to a release token, or null when
+   * another holder has it
+   */
+  async acquire(name: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID()
+    const acquired = await this.store.setnx(this.lockKey(name), token, ttlMs)
+    return acquired ? token : null
+  }
+
+  /**
+   * Release the lock if `token` still holds it
+   */
+  async release(name: string, token: string): Promise<boolean> {
+    return this.store.delIfEquals(this.lockKey(name), token)
+  }
+
+  async isLocked(name: string): Promise<boolean> {
+    return (await this.store.get(this.lockKey(name))) !== null
+  }
+
+  private lockKey(name: string): string {
+    return `${this.prefix}:lock:${name}`
+  }
+}
@@ -0,0 +1,393 @@
+import {
+  tagSetKey,
+  type CacheStore,
+  type CacheStoreBatch,
+  type EntryIndexLayout,
+  type InvalidateMembersOptions,
+  type StreamEntry,
+} from './store.js'
+import { compareStreamIds } from './pubsub.js'
+import { patternToRegex } from '../utils/pattern-match.js'
+import { stripHashTag } from '../utils/key-slot.js'
+
+interface MemoryEntry {
+  value: string | Set<string> | StreamEntry[]
+  expiresAt?: number
+}
+
+type Subscription = {
+  channels: string[]
+  handler: (channel: string, message: string) => void
+}
+
+class MemoryStoreBatch implements CacheStoreBatch {
+  private ops: Array<() => Promise<unknown>> = []
+
+  constructor(private store: MemoryStore) {}
+
+  set(key: string, value: string, ttl?: number): this {
+    this.ops.push(() => this.store.set(key, value, ttl))
+    return this
+  }
+
+  del(keys: string[]): this {
+    this.ops.push(() => this.store.del(keys))
+    return this
+  }
+
+  expire(key: string, ttl: number): this {
+    this.ops.push(() => this.store.expire(key, ttl))
+    return this
+  }
+
+  incr(key: string): this {
+    this.ops.push(() => this.store.incr(key))
+    return this
+  }
+
+  sadd(key: string, members: string[]): this {
+    this.ops.push(() => this.store.sadd(key, members))
+    return this
+  }
+
+  srem(key: string, members: string[]): this {
+    this.ops.push(() => this.store.srem(key, members))
+    return this
+  }
+
+  saddExtend(key: string, members: string[], ttl?: number): this {
+    this.ops.push(() => this.store.saddExtend(key, members, ttl))
+    return this
+  }
+
+  async exec(): Promise<void> {
+    for (const op of this.ops) {
+      await op()
+    }
+    this.ops = []
+  }
+}
+
+/**
+ * In-process store for unit tests and local development without Redis.
+ * Mirrors the Redis semantics the cache relies on: string and set values
+ * share one keyspace, TTLs expire lazily, and pub/sub is delivered to
+ * every subscriber of the same store instance.
+ */
+export class MemoryStore implements CacheStore {
+  private entries = new Map<string, MemoryEntry>()
+  private subscriptions = new Set<Subscription>()
+  private streamWaiters = new Set<() => void>()
+  private lastStreamId = '0-0'
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.read(key)
+    return typeof entry?.value === 'string' ? entry.value : null
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map((key) => this.get(key)))
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: ttl ? Date.now() + ttl * 1000 : undefined,
+    })
+  }
+
+  async del(keys: string[]): Promise<number> {
+    let count = 0
+    for (const key of keys) {
+      if (this.read(key)) {
+        this.entries.delete(key)
+        count++
+      }
+    }
+    return count
+  }
+
+  async expire(key: string, ttl: number): Promise<void> {
+    const entry = this.read(key)
+    if (entry) {
+      entry.expiresAt = Date.now() + ttl * 1000
+    }
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.read(key)
+    const current = typeof entry?.value === 'string' ? Number(entry.value) : 0
+    if (Number.isNaN(current)) {
+      throw new Error('ERR value is not an integer or out of range')
+    }
+
+    const next = current + 1
+    this.entries.set(key, { value: String(next), expiresAt: entry?.expiresAt })
+    return next
+  }
+
+  async setnx(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key)) return false
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    return true
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    if (this.read(key)?.value !== value) return false
+
+    this.entries.delete(key)
+    return true
+  }
+
+  async sadd(key: string, members: string[]): Promise<void> {
+    if (members.length === 0) return
+
+    const entry = this.read(key)
+    if (entry?.value instanceof Set) {
+      for (const member of members) entry.value.add(member)
+      return
+    }
+
+    this.entries.set(key, { value: new Set(members) })
+  }
+
+  async srem(key: string, members: string[]): Promise<void> {
+    this.removeMembers(key, members)
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    const entry = this.read(key)
+    return entry?.value instanceof Set ? [...entry.value] : []
+  }
+
+  async saddExtend(
+    key: string,
+    members: string[],
+    ttl?: number
+  ): Promise<void> {
+    if (members.length === 0) return
+
+    const existed = this.read(key)?.value instanceof Set
+    await this.sadd(key, members)
+
+    const entry = this.read(key)!
+    const expiresAt = ttl ? Date.now() + ttl * 1000 : undefined
+    if (expiresAt === undefined || !existed) {
+      entry.expiresAt = expiresAt
+    } else if (entry.expiresAt !== undefined && entry.expiresAt < expiresAt) {
+      entry.expiresAt = expiresAt
+    }
+  }
+
+  async *sscan(key: string, count: number): AsyncIterable<string[]> {
+    const members = await this.smembers(key)
+    for (let i = 0; i < members.length; i += count) {
+      yield members.slice(i, i + count)
+    }
+  }
+
+  async *scan(match: string, count: number): AsyncIterable<string[]> {
+    const regex = patternToRegex(match)
+    const keys = [...this.entries.keys()].filter(
+      (key) => regex.test(key) && this.read(key)
+    )
+    for (let i = 0; i < keys.length; i += count) {
+      yield keys.slice(i, i + count)
+    }
+  }
+
+  async exists(keys: string[]): Promise<boolean[]> {
+    return keys.map((key) => this.read(key) !== undefined)
+  }
+
+  async takeMembers(key: string): Promise<string[]> {
+    const entry = this.read(key)
+    if (!(entry?.value instanceof Set)) return []
+
+    this.entries.delete(key)
+    return [...entry.value]
+  }
+
+  async invalidateKeys(
+    keys: string[],
+    layout: EntryIndexLayout
+  ): Promise<void> {
+    for (const key of keys) this.invalidateEntry(key, layout)
+  }
+
+  async invalidateMembers(
+    setKey: string,
+    options: InvalidateMembersOptions
+  ): Promise<string[]> {
+    const entry = this.read(setKey)
+    if (!(entry?.value instanceof Set)) return []
+
+    // Runs synchronously, so the whole set is handled atomically
+    const regex = options.match ? patternToRegex(options.match) : undefined
+    const members = [...entry.value].filter(
+      (member) =>
+        !regex ||
+        regex.test(options.layout.hashTag ? stripHashTag(member) : member)
+    )
+    this.removeMembers(setKey, members)
+    for (const member of members) {
+      this.invalidateEntry(member, options.layout)
+    }
+    return members
+  }
+
+  batch(): CacheStoreBatch {
+    return new MemoryStoreBatch(this)
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    for (const subscription of this.subscriptions) {
+      if (subscription.channels.includes(channel)) {
+        subscription.handler(channel, message)
+      }
+    }
+  }
+
+  async subscribe(
+    channels: string[],
+    handler: (channel: string, message: string) => void
+  ): Promise<() => Promise<void>> {
+    const subscription: Subscription = { channels, handler }
+    this.subscriptions.add(subscription)
+
+    return async () => {
+      this.subscriptions.delete(subscription)
+    }
+  }
+
+  async xadd(
+    stream: string,
+    message: string,
+    maxLength: number
+  ): Promise<string> {
+    const entry = this.read(stream)
+    const entries = Array.isArray(entry?.value) ? entry.value : []
+    if (!Array.isArray(entry?.value)) {
+      this.entries.set(stream, { value: entries })
+    }
+
+    const id = this.nextStreamId()
+    entries.push({ id, message })
+    if (entries.length > maxLength) {
+      entries.splice(0, entries.length - maxLength)
+    }
+
+    for (const wake of this.streamWaiters) wake()
+    return id
+  }
+
+  async xread(
+    stream: string,
+    lastId: string,
+    options: { count: number; blockMs?: number }
+  ): Promise<StreamEntry[]> {
+    const available = this.readStreamAfter(stream, lastId, options.count)
+    if (available.length > 0 || options.blockMs === undefined) {
+      return available
+    }
+
+    // Wait for the next xadd (or close), like a blocking XREAD
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer)
+        this.streamWaiters.delete(wake)
+        resolve()
+      }
+      const timer = setTimeout(wake, options.blockMs || 2 ** 31 - 1)
+      timer.unref?.()
+      this.streamWaiters.add(wake)
+    })
+
+    return this.readStreamAfter(stream, lastId, options.count)
+  }
+
+  async xlastId(stream: string): Promise<string> {
+    const entry = this.read(stream)
+    const entries = Array.isArray(entry?.value) ? entry.value : []
+    return entries[entries.length - 1]?.id ?? '0-0'
+  }
+
+  async close(): Promise<void> {
+    // Subscriptions end through their own handles; release blocked reads
+    for (const wake of this.streamWaiters) wake()
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+
+  private readStreamAfter(
+    stream: string,
+    lastId: string,
+    count: number
+  ): StreamEntry[] {
+    const entry = this.read(stream)
+    if (!Array.isArray(entry?.value)) return []
+
+    return entry.value
+      .filter((item) => compareStreamIds(item.id, lastId) > 0)
+      .slice(0, count)
+  }
+
+  private nextStreamId(): string {
+    const [lastMs = 0, lastSeq = 0] = this.lastStreamId.split('-').map(Number)
+    const now = Date.now()
+    this.lastStreamId = now > lastMs ? `${now}-0` : `${lastMs}-${lastSeq + 1}`
+    return this.lastStreamId
+  }
+
+  private removeMembers(key: string, members: string[]): void {
+    const entry = this.read(key)
+    if (!entry || !(entry.value instanceof Set)) return
+
+    for (const member of members) entry.value.delete(member)
+    if (entry.value.size === 0) {
+      this.entries.delete(key)
+    }
+  }
+
+  private invalidateEntry(key: string, layout: EntryIndexLayout): void {
+    const tagsKey = layout.keyTagsPrefix + key
+    const tags = this.read(tagsKey)?.value
+    if (typeof tags === 'string') {
+      for (const tag of JSON.parse(tags) as string[]) {
+        this.removeMembers(tagSetKey(layout, tag, key), [key])
+      }
+      this.entries.delete(tagsKey)
+    }
+
+    if (!layout.versionPrefix) {
+      this.entries.delete(key)
+      return
+    }
+
+    const versionKey = layout.versionPrefix + key
+    const current = this.read(versionKey)
+    const version =
+      typeof current?.value === 'string' ? Number(current.value) : 0
+    this.entries.set(versionKey, {
+      value: String(version + 1),
+      expiresAt: layout.versionTTL
+        ? Date.now() + layout.versionTTL * 1000
+        : current?.expiresAt,
+    })
+  }
+
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+}
@@ -1,47 +1,91 @@
-import type Redis from 'ioredis'
+import type { CacheStore, CacheStoreBatch, EntryIndexLayout } from './store.js'
+import {
+  escapePattern,
+  literalPrefix,
+  patternToRegex,
+} from '../utils/pattern-match.js'
+import { stripHashTag } from '../utils/key-slot.js'
+
+/**
+ * Members read per SSCAN call when listing keys
+ */
+const SCAN_BATCH_SIZE = 500
 
 /**
  * Manages pattern-based cache invalidation.
- * Maintains Redis sets for pattern -> keys mapping.
+ * Keeps a set of keys per definition, plus a registry of definition names.
+ * Patterns use the glob syntax of `utils/pattern-match`.
  */
 export class PatternMatcher {
+  /**
+   * Whether this instance has added definitions tracked before the names
+   * registry existed to it
+   */
+  private namesBackfilled = false
+
   constructor(
-    private redis: Redis,
-    private prefix: string
+    private store: CacheStore,
+    private prefix: string,
+    private hashTag = false
   ) {}
 
   /**
-   * Track a key under a pattern category
-   * For key "prefix:name:123", track under pattern "name"
+   * Track a key under its definition's set
    */
-  async trackKey(key: string): Promise<void> {
-    // Extract cache name from full key format "prefix:name:key"
-    const parts = key.split(':')
-    if (parts.length < 3) return
-
-    const pattern = parts[1] // e.g., "user" from "test-cache:user:123"
-    const patternKey = `${this.prefix}:pattern:${pattern}`
+  async trackKey(key: string, name: string): Promise<void> {
+    const batch = this.store.batch()
+    this.queueTrackKey(batch, key, name)
+    await batch.exec()
+  }
 
-    await this.redis.sadd(patternKey, key)
+  /**
+   * Queue the index write of `trackKey` on an existing batch
+   */
+  queueTrackKey(batch: CacheStoreBatch, key: string, name: string): void {
+    batch.sadd(this.patternKey(name), [key])
+    batch.sadd(this.namesKey(), [name])
   }
 
   /**
    * Get all keys matching a pattern
-   * Pattern should be in format "name:*" (without prefix)
+   * Pattern is relative to the prefix, e.g. "user:*" or "*:123"
    */
   async getKeysByPattern(pattern: string): Promise<string[]> {
-    // If pattern is simple like "user:*", extract base pattern "user"
-    const base = pattern.replace(/:\*.*$/, '')
-    const patternKey = `${this.prefix}:pattern:${base}`
-
-    const keys = await this.redis.smembers(patternKey)
-
-    // If pattern has wildcards, filter results
-    // Need to prepend prefix to pattern for matching full Redis keys
-    if (pattern.includes('*')) {
-      const fullPattern = `${this.prefix}:${pattern}`
-      const regex = this.patternToRegex(fullPattern)
-      return keys.filter((key) => regex.test(key))
+    const regex = patternToRegex(this.fullPattern(pattern))
+    const keys: string[] = []
+
+    for (const name of await this.candidateNames(pattern)) {
+      for await (const members of this.store.sscan(
+        this.patternKey(name),
+        SCAN_BATCH_SIZE
+      )) {
+        keys.push(
+          ...members.filter((key) => regex.test(this.normalizeKey(key)))
+        )
+      }
+    }
+
+    return keys
+  }
+
+  /**
+   * Delete every key matching a pattern along with its tag index entries,
+   * chunk by chunk. Resolves to the keys deleted.
+   */
+  async invalidatePattern(
+    pattern: string,
+    layout: EntryIndexLayout
+  ): Promise<string[]> {
+    const match = this.fullPattern(pattern)
+    const keys: string[] = []
+
+    for (const name of await this.candidateNames(pattern)) {
+      keys.push(
+        ...(await this.store.invalidateMembers(this.patternKey(name), {
+          layout,
+          match,
+        }))
+      )
     }
 
     return keys
@@ -50,28 +94,86 @@ export class PatternMatcher {
   /**
    * Remove a key from pattern tracking
    */
-  async removeKey(key: string): Promise<void> {
-    const parts = key.split(':')
-    if (parts.length < 3) return
+  async removeKey(key: string, name: string): Promise<void> {
+    await this.store.srem(this.patternKey(name), [key])
+  }
+
+  /**
+   * Delete a definition's pattern index
+   */
+  async deletePattern(name: string): Promise<void> {
+    await this.store.del([this.patternKey(name)])
+    await this.store.srem(this.namesKey(), [name])
+  }
+
+  /**
+   * Definitions whose sets can hold matches: names the pattern's literal
+   * prefix runs through (tracked before the registry existed, too) and
+   * registered names it is a prefix of. A pattern starting with a
+   * wildcard scans every registered definition.
+   */
+  private async candidateNames(pattern: string): Promise<string[]> {
+    await this.backfillNames()
 
-    const pattern = parts[1]
-    const patternKey = `${this.prefix}:pattern:${pattern}`
+    const literal = literalPrefix(pattern)
+    const names = new Set<string>()
 
-    await this.redis.srem(patternKey, key)
+    for (let end = literal.indexOf(':'); end !== -1; ) {
+      names.add(literal.slice(0, end))
+      end = literal.indexOf(':', end + 1)
+    }
+    for (const name of await this.store.smembers(this.namesKey())) {
+      if (`${name}:`.startsWith(literal)) names.add(name)
+    }
+
+    return [...names]
   }
 
   /**
-   * Delete pattern index
+   * Register definitions whose sets were written before the names
+   * registry existed, found with one SCAN over the pattern sets. Runs
+   * once per instance; later writes register their names themselves.
    */
-  async deletePattern(pattern: string): Promise<void> {
-    const base = pattern.replace(/:\*.*$/, '')
-    const patternKey = `${this.prefix}:pattern:${base}`
-    await this.redis.del(patternKey)
+  private async backfillNames(): Promise<void> {
+    if (this.namesBackfilled) return
+
+    const setPrefix = `${this.prefix}:pattern:`
+    const names = new Set<string>()
+    for await (const keys of this.store.scan(
+      `${escapePattern(setPrefix)}*`,
+      SCAN_BATCH_SIZE
+    )) {
+      for (const key of keys) {
+        const name = key.slice(setPrefix.length)
+        names.add(this.hashTag ? name.replace(/^\{(.*)\}$/, '$1') : name)
+      }
+    }
+
+    if (names.size > 0) {
+      await this.store.sadd(this.namesKey(), [...names])
+    }
+    this.namesBackfilled = true
+  }
+
+  private patternKey(name: string): string {
+    // Hash-tagged index shares a cluster slot with the definition's keys
+    return this.hashTag
+      ? `${this.prefix}:pattern:{${name}}`
+      : `${this.prefix}:pattern:${name}`
+  }
+
+  private namesKey(): string {
+    return `${this.prefix}:pattern-names`
+  }
+
+  private fullPattern(pattern: string): string {
+    return `${escapePattern(this.prefix)}:${pattern}`
   }
 
-  private patternToRegex(pattern: string): RegExp {
-    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-    const regex = escaped.replace(/\*/g, '.*')
-    return new RegExp(`^${regex}$`)
+  /**
+   * Drop hash-tag braces so "prefix:{user}:1" matches "user:*"
+   */
+  private normalizeKey(key: string): string {
+    return this.hashTag ? stripHashTag(key) : key
   }
 }
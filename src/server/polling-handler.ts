@@ -0,0 +1,21 @@
+import type { Cache } from '../types/cache.js'
+
+/**
+ * Creates a polling endpoint for cache invalidation.
+ * Clients pass the cursor from their previous response as `?cursor=`
+ * and receive the invalidations recorded since then. Works in serverless
+ * mode, where no long-lived SSE connection can be held open.
+ */
+export function createPollingHandler(cache: Cache) {
+  return async function pollingLoader({ request }: { request: Request }) {
+    const cursor = new URL(request.url).searchParams.get('cursor') || undefined
+    const page = await cache.readInvalidations(cursor)
+
+    return new Response(JSON.stringify(page), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    })
+  }
+}
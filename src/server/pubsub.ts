@@ -1,65 +1,292 @@
-import type Redis from 'ioredis'
+import { randomUUID } from 'node:crypto'
+import type { CacheStore } from './store.js'
 
 export interface InvalidationEvent {
   key?: string
   tag?: string
+  tags?: string[]
   pattern?: string
   keys?: string[]
+  /**
+   * Instance ID of the publisher
+   */
+  origin?: string
   timestamp: number
 }
 
+export interface PubSubOptions {
+  prefix?: string
+  channels?: {
+    invalidateKey?: string
+    invalidateTag?: string
+    invalidatePattern?: string
+  }
+  instanceId?: string
+  transport?: 'redis-pubsub' | 'redis-streams'
+  streamMaxLength?: number
+  /**
+   * Stream entry ID to start subscriptions after instead of the newest
+   * entry; ignored unless it is a stream ID
+   */
+  streamStartId?: string
+  onError?: (error: Error) => void
+}
+
+export interface ReplayedInvalidation {
+  id: string
+  channel: string
+  event: InvalidationEvent
+}
+
+/**
+ * Receives an invalidation; `id` is the stream entry ID with the
+ * 'redis-streams' transport
+ */
+export type InvalidationHandler = (
+  channel: string,
+  event: InvalidationEvent,
+  id?: string
+) => void
+
+interface StreamMessage {
+  channel: string
+  event: InvalidationEvent
+}
+
+const STREAM_READ_COUNT = 100
+const STREAM_BLOCK_MS = 5000
+const STREAM_RETRY_MS = 1000
+const STREAM_ID_FORMAT = /^\d+-\d+$/
+
+/**
+ * Order two stream entry IDs (`<ms>-<seq>`)
+ */
+export function compareStreamIds(a: string, b: string): number {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number)
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number)
+  return aMs - bMs || aSeq - bSeq
+}
+
 export class PubSubHandler {
-  private channels = {
-    INVALIDATE_KEY: 'remix-cache:invalidate:key',
-    INVALIDATE_TAG: 'remix-cache:invalidate:tag',
-    INVALIDATE_PATTERN: 'remix-cache:invalidate:pattern',
+  readonly instanceId: string
+  private channels: {
+    INVALIDATE_KEY: string
+    INVALIDATE_TAG: string
+    INVALIDATE_PATTERN: string
   }
+  private stream: string
+  private transport: 'redis-pubsub' | 'redis-streams'
+  private streamMaxLength: number
+  private unsubscribeFn?: () => Promise<void>
 
   constructor(
-    private subscriber: Redis,
-    private publisher: Redis
-  ) {}
+    private store: CacheStore,
+    private options: PubSubOptions = {}
+  ) {
+    // Namespace channels by prefix so apps sharing a Redis stay isolated
+    const prefix = options.prefix || 'remix-cache'
+    this.channels = {
+      INVALIDATE_KEY:
+        options.channels?.invalidateKey || `${prefix}:invalidate:key`,
+      INVALIDATE_TAG:
+        options.channels?.invalidateTag || `${prefix}:invalidate:tag`,
+      INVALIDATE_PATTERN:
+        options.channels?.invalidatePattern || `${prefix}:invalidate:pattern`,
+    }
+    this.stream = `${prefix}:invalidate:stream`
+    this.instanceId = options.instanceId || randomUUID()
+    this.transport = options.transport || 'redis-pubsub'
+    this.streamMaxLength = options.streamMaxLength || 10000
+  }
 
+  /**
+   * Listen for invalidations. Events published by this instance are
+   * skipped unless `includeOwn` is set.
+   */
   async subscribe(
-    handler: (channel: string, event: InvalidationEvent) => void
+    handler: InvalidationHandler,
+    options: { includeOwn?: boolean } = {}
   ): Promise<void> {
-    await this.subscriber.subscribe(
-      this.channels.INVALIDATE_KEY,
-      this.channels.INVALIDATE_TAG,
-      this.channels.INVALIDATE_PATTERN
-    )
+    const includeOwn = options.includeOwn ?? false
 
-    this.subscriber.on('message', (channel, message) => {
-      const event = JSON.parse(message) as InvalidationEvent
-      handler(channel, event)
-    })
+    if (this.transport === 'redis-streams') {
+      this.unsubscribeFn = await this.consumeStream(handler, includeOwn)
+      return
+    }
+
+    this.unsubscribeFn = await this.store.subscribe(
+      [
+        this.channels.INVALIDATE_KEY,
+        this.channels.INVALIDATE_TAG,
+        this.channels.INVALIDATE_PATTERN,
+      ],
+      (channel, message) => {
+        const event = JSON.parse(message) as InvalidationEvent
+        if (!includeOwn && event.origin === this.instanceId) return
+        handler(channel, event)
+      }
+    )
   }
 
   async publishKeyInvalidation(key: string): Promise<void> {
-    await this.publisher.publish(
-      this.channels.INVALIDATE_KEY,
-      JSON.stringify({ key, timestamp: Date.now() })
-    )
+    await this.publish(this.channels.INVALIDATE_KEY, {
+      key,
+      origin: this.instanceId,
+      timestamp: Date.now(),
+    })
   }
 
   async publishTagInvalidation(tag: string, keys: string[]): Promise<void> {
-    await this.publisher.publish(
-      this.channels.INVALIDATE_TAG,
-      JSON.stringify({ tag, keys, timestamp: Date.now() })
-    )
+    await this.publish(this.channels.INVALIDATE_TAG, {
+      tag,
+      keys,
+      origin: this.instanceId,
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * One message for tags and keys invalidated together
+   */
+  async publishBatchInvalidation(
+    tags: string[],
+    keys: string[]
+  ): Promise<void> {
+    await this.publish(this.channels.INVALIDATE_TAG, {
+      tags,
+      keys,
+      origin: this.instanceId,
+      timestamp: Date.now(),
+    })
   }
 
   async publishPatternInvalidation(
     pattern: string,
     keys: string[]
   ): Promise<void> {
-    await this.publisher.publish(
-      this.channels.INVALIDATE_PATTERN,
-      JSON.stringify({ pattern, keys, timestamp: Date.now() })
-    )
+    await this.publish(this.channels.INVALIDATE_PATTERN, {
+      pattern,
+      keys,
+      origin: this.instanceId,
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Read every invalidation published after the stream entry `afterId`.
+   * Only the 'redis-streams' transport keeps history; with pub/sub, or
+   * an ID that is not a stream ID, nothing is replayed.
+   */
+  async replay(afterId: string): Promise<ReplayedInvalidation[]> {
+    if (this.transport !== 'redis-streams' || !STREAM_ID_FORMAT.test(afterId)) {
+      return []
+    }
+
+    const replayed: ReplayedInvalidation[] = []
+    let lastId = afterId
+
+    for (;;) {
+      const entries = await this.store.xread(this.stream, lastId, {
+        count: STREAM_READ_COUNT,
+      })
+
+      for (const entry of entries) {
+        lastId = entry.id
+        try {
+          const { channel, event } = JSON.parse(entry.message) as StreamMessage
+          replayed.push({ id: entry.id, channel, event })
+        } catch (error) {
+          this.reportError(error)
+        }
+      }
+
+      if (entries.length < STREAM_READ_COUNT) return replayed
+    }
   }
 
   async unsubscribe(): Promise<void> {
-    await this.subscriber.unsubscribe()
+    if (this.unsubscribeFn) {
+      const unsubscribe = this.unsubscribeFn
+      this.unsubscribeFn = undefined
+      await unsubscribe()
+    }
+  }
+
+  private async publish(
+    channel: string,
+    event: InvalidationEvent
+  ): Promise<void> {
+    if (this.transport === 'redis-streams') {
+      const message: StreamMessage = { channel, event }
+      await this.store.xadd(
+        this.stream,
+        JSON.stringify(message),
+        this.streamMaxLength
+      )
+      return
+    }
+
+    await this.store.publish(channel, JSON.stringify(event))
+  }
+
+  /**
+   * Read the invalidation stream after `streamStartId`, or from the newest
+   * entry onwards. The last delivered ID is kept across failed reads, so
+   * after a disconnect the loop resumes where it stopped and replays
+   * anything it missed.
+   */
+  private async consumeStream(
+    handler: InvalidationHandler,
+    includeOwn: boolean
+  ): Promise<() => Promise<void>> {
+    const startId = this.options.streamStartId
+    let lastId =
+      startId && STREAM_ID_FORMAT.test(startId)
+        ? startId
+        : await this.store.xlastId(this.stream)
+    let running = true
+
+    const loop = async () => {
+      while (running) {
+        try {
+          const entries = await this.store.xread(this.stream, lastId, {
+            count: STREAM_READ_COUNT,
+            blockMs: STREAM_BLOCK_MS,
+          })
+
+          for (const entry of entries) {
+            lastId = entry.id
+            if (!running) return
+
+            try {
+              const { channel, event } = JSON.parse(
+                entry.message
+              ) as StreamMessage
+              if (includeOwn || event.origin !== this.instanceId) {
+                handler(channel, event, entry.id)
+              }
+            } catch (error) {
+              this.reportError(error)
+            }
+          }
+        } catch (error) {
+          if (!running) return
+          this.reportError(error)
+          await new Promise((resolve) => setTimeout(resolve, STREAM_RETRY_MS))
+        }
+      }
+    }
+
+    void loop()
+
+    return async () => {
+      running = false
+    }
+  }
+
+  private reportError(error: unknown): void {
+    if (this.options.onError && error instanceof Error) {
+      this.options.onError(error)
+    }
   }
 }
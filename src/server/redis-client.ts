@@ -1,35 +1,43 @@
-import Redis, { type RedisOptions } from 'ioredis'
+import Redis, { Cluster } from 'ioredis'
+import type { RedisConfig } from '../types/config.js'
 
-export type RedisConfig = string | Redis | RedisOptions
+export type { RedisConfig }
 
-export function createRedisClient(config: RedisConfig): Redis {
+export type RedisConnection = Redis | Cluster
+
+export function createRedisClient(config: RedisConfig): RedisConnection {
   if (typeof config === 'string') {
     return new Redis(config)
-  } else if (config instanceof Redis) {
+  } else if (config instanceof Redis || config instanceof Cluster) {
     return config
+  } else if ('nodes' in config) {
+    return new Cluster(config.nodes, config.options)
   } else {
     return new Redis(config)
   }
 }
 
 export function createRedisClients(config: RedisConfig): {
-  client: Redis
-  subscriber: Redis
-  publisher: Redis
+  client: RedisConnection
+  subscriber: RedisConnection
+  publisher: RedisConnection
 } {
   const client = createRedisClient(config)
 
   // For pub/sub, we need separate connections
-  let subscriber: Redis
-  let publisher: Redis
+  let subscriber: RedisConnection
+  let publisher: RedisConnection
 
   if (typeof config === 'string') {
     subscriber = new Redis(config)
     publisher = new Redis(config)
-  } else if (config instanceof Redis) {
+  } else if (config instanceof Redis || config instanceof Cluster) {
     // If user provided a client, duplicate it for pub/sub
     subscriber = client.duplicate()
     publisher = client.duplicate()
+  } else if ('nodes' in config) {
+    subscriber = new Cluster(config.nodes, config.options)
+    publisher = new Cluster(config.nodes, config.options)
   } else {
     subscriber = new Redis(config)
     publisher = new Redis(config)
@@ -37,3 +45,7 @@ export function createRedisClients(config: RedisConfig): {
 
   return { client, subscriber, publisher }
 }
+
+export function isCluster(connection: RedisConnection): connection is Cluster {
+  return connection instanceof Cluster
+}
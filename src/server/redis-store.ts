@@ -0,0 +1,648 @@
+import { createHash } from 'node:crypto'
+import type { ChainableCommander } from 'ioredis'
+import {
+  tagSetKey,
+  type CacheStore,
+  type CacheStoreBatch,
+  type EntryIndexLayout,
+  type InvalidateMembersOptions,
+  type StreamEntry,
+} from './store.js'
+import {
+  createRedisClients,
+  isCluster,
+  type RedisConfig,
+  type RedisConnection,
+} from './redis-client.js'
+import {
+  extractHashTag,
+  getKeySlot,
+  groupBySlot,
+  stripHashTag,
+} from '../utils/key-slot.js'
+import {
+  patternToLuaPattern,
+  patternToRedisGlob,
+  patternToRegex,
+} from '../utils/pattern-match.js'
+
+interface LuaScript {
+  source: string
+  sha: string
+}
+
+/**
+ * Scripts run with EVALSHA, so only the digest is sent once Redis has
+ * cached the source
+ */
+function luaScript(source: string): LuaScript {
+  return { source, sha: createHash('sha1').update(source).digest('hex') }
+}
+
+const DEL_IF_EQUALS_SCRIPT = luaScript(`
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`)
+
+// TTL -1 means the set has no expiry, so it is only extended if it has one
+const SADD_EXTEND_SCRIPT = luaScript(`
+local ttl = tonumber(ARGV[1])
+local current = redis.call('ttl', KEYS[1])
+redis.call('sadd', KEYS[1], unpack(ARGV, 2))
+if ttl <= 0 then
+  redis.call('persist', KEYS[1])
+elseif current == -2 or (current >= 0 and current < ttl) then
+  redis.call('expire', KEYS[1], ttl)
+end
+return 1
+`)
+
+// Shared by the invalidation scripts. ARGV[1..5] describe the
+// EntryIndexLayout; must match tagSetKey and extractHashTag.
+const INVALIDATE_ENTRY_LUA = `
+local key_tags_prefix, tag_prefix = ARGV[1], ARGV[2]
+local hash_tag, version_prefix = ARGV[3] == '1', ARGV[4]
+local version_ttl = tonumber(ARGV[5])
+
+local function tag_set_key(tag, key)
+  if hash_tag then
+    local first = string.find(key, '{', 1, true)
+    local last = first and string.find(key, '}', first + 1, true)
+    if last and last > first + 1 then
+      return tag_prefix .. tag .. ':{' .. string.sub(key, first + 1, last - 1) .. '}'
+    end
+  end
+  return tag_prefix .. tag
+end
+
+local function invalidate_entry(key)
+  local tags_key = key_tags_prefix .. key
+  local tags = redis.call('get', tags_key)
+  if tags then
+    for _, tag in ipairs(cjson.decode(tags)) do
+      redis.call('srem', tag_set_key(tag, key), key)
+    end
+    redis.call('del', tags_key)
+  end
+
+  if version_prefix == '' then
+    redis.call('del', key)
+  else
+    redis.call('incr', version_prefix .. key)
+    if version_ttl > 0 then
+      redis.call('expire', version_prefix .. key, version_ttl)
+    end
+  end
+end
+`
+
+const INVALIDATE_KEYS_SCRIPT = luaScript(`${INVALIDATE_ENTRY_LUA}
+for _, key in ipairs(KEYS) do
+  invalidate_entry(key)
+end
+return #KEYS
+`)
+
+// ARGV[6..9]: SSCAN cursor and count, a Redis glob for MATCH and an
+// anchored Lua pattern members must match once their hash-tag braces
+// are stripped ('' for either means no filter)
+const INVALIDATE_MEMBERS_SCRIPT = luaScript(`${INVALIDATE_ENTRY_LUA}
+local function strip_hash_tag(key)
+  local first = string.find(key, '{', 1, true)
+  local last = first and string.find(key, '}', first + 1, true)
+  if not last or last == first + 1 then return key end
+  return string.sub(key, 1, first - 1) .. string.sub(key, first + 1, last - 1)
+    .. string.sub(key, last + 1)
+end
+
+local scan = {'sscan', KEYS[1], ARGV[6], 'COUNT', ARGV[7]}
+if ARGV[8] ~= '' then
+  table.insert(scan, 'MATCH')
+  table.insert(scan, ARGV[8])
+end
+
+local result = redis.call(unpack(scan))
+local invalidated = {}
+for _, member in ipairs(result[2]) do
+  if ARGV[9] == '' or string.find(strip_hash_tag(member), ARGV[9]) then
+    redis.call('srem', KEYS[1], member)
+    invalidate_entry(member)
+    table.insert(invalidated, member)
+  end
+end
+return {result[1], invalidated}
+`)
+
+/**
+ * Keys per invalidation script call, to bound how long Redis is blocked
+ */
+const INVALIDATE_CHUNK_SIZE = 500
+
+function layoutArgs(layout: EntryIndexLayout): Array<string | number> {
+  return [
+    layout.keyTagsPrefix,
+    layout.tagPrefix,
+    layout.hashTag ? '1' : '0',
+    layout.versionPrefix || '',
+    layout.versionTTL || 0,
+  ]
+}
+
+function parseTags(value: string | null | undefined): string[] {
+  return value ? (JSON.parse(value) as string[]) : []
+}
+
+type BatchOp = {
+  key: string
+  apply: (pipeline: ChainableCommander) => void
+}
+
+class RedisStoreBatch implements CacheStoreBatch {
+  private ops: BatchOp[] = []
+
+  constructor(private client: RedisConnection) {}
+
+  set(key: string, value: string, ttl?: number): this {
+    return this.push(key, (p) => {
+      if (ttl) {
+        p.setex(key, ttl, value)
+      } else {
+        p.set(key, value)
+      }
+    })
+  }
+
+  del(keys: string[]): this {
+    // Split per slot up front so a cluster pipeline never sees a cross-slot DEL
+    const groups = isCluster(this.client) ? groupBySlot(keys) : [keys]
+    for (const group of groups) {
+      if (group.length > 0) this.push(group[0]!, (p) => p.del(...group))
+    }
+    return this
+  }
+
+  expire(key: string, ttl: number): this {
+    return this.push(key, (p) => p.expire(key, ttl))
+  }
+
+  incr(key: string): this {
+    return this.push(key, (p) => p.incr(key))
+  }
+
+  sadd(key: string, members: string[]): this {
+    if (members.length === 0) return this
+    return this.push(key, (p) => p.sadd(key, ...members))
+  }
+
+  srem(key: string, members: string[]): this {
+    if (members.length === 0) return this
+    return this.push(key, (p) => p.srem(key, ...members))
+  }
+
+  saddExtend(key: string, members: string[], ttl?: number): this {
+    if (members.length === 0) return this
+    return this.push(key, (p) =>
+      p.eval(SADD_EXTEND_SCRIPT.source, 1, key, ttl || 0, ...members)
+    )
+  }
+
+  async exec(): Promise<void> {
+    if (this.ops.length === 0) return
+
+    // A cluster pipeline must stay within one slot, so run one per slot
+    const groups = isCluster(this.client) ? this.groupOpsBySlot() : [this.ops]
+    this.ops = []
+
+    await Promise.all(
+      groups.map(async (ops) => {
+        const pipeline = this.client.pipeline()
+        for (const op of ops) op.apply(pipeline)
+
+        const results = await pipeline.exec()
+        const failed = results?.find(([error]) => error)
+        if (failed?.[0]) {
+          throw failed[0]
+        }
+      })
+    )
+  }
+
+  private push(key: string, apply: BatchOp['apply']): this {
+    this.ops.push({ key, apply })
+    return this
+  }
+
+  private groupOpsBySlot(): BatchOp[][] {
+    const groups = new Map<number, BatchOp[]>()
+    for (const op of this.ops) {
+      const slot = getKeySlot(op.key)
+      const group = groups.get(slot)
+      if (group) {
+        group.push(op)
+      } else {
+        groups.set(slot, [op])
+      }
+    }
+    return [...groups.values()]
+  }
+}
+
+/**
+ * Redis-backed store. Holds separate connections for commands,
+ * subscribing and publishing, since a subscribed connection cannot
+ * issue regular commands. Works with single nodes and Redis Cluster;
+ * on a cluster, multi-key commands are split per hash slot.
+ */
+export class RedisStore implements CacheStore {
+  private client: RedisConnection
+  private subscriber: RedisConnection
+  private publisher: RedisConnection
+  private streamReader?: RedisConnection
+
+  constructor(config: RedisConfig) {
+    const { client, subscriber, publisher } = createRedisClients(config)
+    this.client = client
+    this.subscriber = subscriber
+    this.publisher = publisher
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key)
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    if (keys.length === 0) return []
+    if (!isCluster(this.client)) {
+      return this.client.mget(...keys)
+    }
+
+    const values = new Map<string, string | null>()
+    await Promise.all(
+      groupBySlot(keys).map(async (group) => {
+        const results = await this.client.mget(...group)
+        group.forEach((key, i) => values.set(key, results[i] ?? null))
+      })
+    )
+    return keys.map((key) => values.get(key) ?? null)
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    if (ttl) {
+      await this.client.setex(key, ttl, value)
+    } else {
+      await this.client.set(key, value)
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0
+    if (!isCluster(this.client)) {
+      return this.client.del(...keys)
+    }
+
+    const counts = await Promise.all(
+      groupBySlot(keys).map((group) => this.client.del(...group))
+    )
+    return counts.reduce((sum, count) => sum + count, 0)
+  }
+
+  async expire(key: string, ttl: number): Promise<void> {
+    await this.client.expire(key, ttl)
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.client.incr(key)
+  }
+
+  async setnx(key: string, value: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.set(key, value, 'PX', ttlMs, 'NX')) === 'OK'
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    const deleted = await this.evalScript(DEL_IF_EQUALS_SCRIPT, [key], [value])
+    return deleted === 1
+  }
+
+  async sadd(key: string, members: string[]): Promise<void> {
+    if (members.length === 0) return
+    await this.client.sadd(key, ...members)
+  }
+
+  async srem(key: string, members: string[]): Promise<void> {
+    if (members.length === 0) return
+    await this.client.srem(key, ...members)
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return this.client.smembers(key)
+  }
+
+  async saddExtend(
+    key: string,
+    members: string[],
+    ttl?: number
+  ): Promise<void> {
+    if (members.length === 0) return
+    await this.evalScript(SADD_EXTEND_SCRIPT, [key], [ttl || 0, ...members])
+  }
+
+  async *sscan(key: string, count: number): AsyncIterable<string[]> {
+    let cursor = '0'
+    do {
+      const [next, members] = await this.client.sscan(
+        key,
+        cursor,
+        'COUNT',
+        count
+      )
+      cursor = next
+      if (members.length > 0) yield members
+    } while (cursor !== '0')
+  }
+
+  async *scan(match: string, count: number): AsyncIterable<string[]> {
+    // SCAN only covers the node it runs on, so walk every master
+    const nodes = isCluster(this.client)
+      ? this.client.nodes('master')
+      : [this.client]
+
+    for (const node of nodes) {
+      let cursor = '0'
+      do {
+        const [next, keys] = await node.scan(
+          cursor,
+          'MATCH',
+          match,
+          'COUNT',
+          count
+        )
+        cursor = next
+        if (keys.length > 0) yield keys
+      } while (cursor !== '0')
+    }
+  }
+
+  async exists(keys: string[]): Promise<boolean[]> {
+    // One EXISTS per key, since a multi-key EXISTS only returns a count
+    const counts = await Promise.all(keys.map((key) => this.client.exists(key)))
+    return counts.map((count) => count > 0)
+  }
+
+  async takeMembers(key: string): Promise<string[]> {
+    const results = await this.client.multi().smembers(key).del(key).exec()
+    const [error, members] = results?.[0] ?? []
+    if (error) throw error
+    return (members as string[] | undefined) ?? []
+  }
+
+  async invalidateKeys(
+    keys: string[],
+    layout: EntryIndexLayout
+  ): Promise<void> {
+    const scripted = keys.filter((key) => this.canScript(key, layout))
+    const stepwise = keys.filter((key) => !this.canScript(key, layout))
+
+    const groups = isCluster(this.client) ? groupBySlot(scripted) : [scripted]
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i += INVALIDATE_CHUNK_SIZE) {
+        const chunk = group.slice(i, i + INVALIDATE_CHUNK_SIZE)
+        await this.evalScript(INVALIDATE_KEYS_SCRIPT, chunk, layoutArgs(layout))
+      }
+    }
+
+    for (let i = 0; i < stepwise.length; i += INVALIDATE_CHUNK_SIZE) {
+      await this.invalidateStepwise(
+        stepwise.slice(i, i + INVALIDATE_CHUNK_SIZE),
+        layout
+      )
+    }
+  }
+
+  async invalidateMembers(
+    setKey: string,
+    options: InvalidateMembersOptions
+  ): Promise<string[]> {
+    const invalidated = new Set<string>()
+    let cursor = '0'
+
+    do {
+      const [next, members] = await this.invalidateMembersChunk(
+        setKey,
+        cursor,
+        options
+      )
+      for (const member of members) invalidated.add(member)
+      cursor = next
+    } while (cursor !== '0')
+
+    return [...invalidated]
+  }
+
+  private async invalidateMembersChunk(
+    setKey: string,
+    cursor: string,
+    options: InvalidateMembersOptions
+  ): Promise<[string, string[]]> {
+    const { match, layout } = options
+    // Members keep their hash-tag braces, which patterns leave out, so
+    // those are checked after stripping them rather than with MATCH
+    const glob = match && !layout.hashTag ? patternToRedisGlob(match) : ''
+    const stripped = match && layout.hashTag ? match : ''
+    if (this.canScript(setKey, layout)) {
+      const filter = stripped ? patternToLuaPattern(stripped) : ''
+      return (await this.evalScript(
+        INVALIDATE_MEMBERS_SCRIPT,
+        [setKey],
+        [...layoutArgs(layout), cursor, INVALIDATE_CHUNK_SIZE, glob, filter]
+      )) as [string, string[]]
+    }
+
+    const [next, scanned] = glob
+      ? await this.client.sscan(
+          setKey,
+          cursor,
+          'MATCH',
+          glob,
+          'COUNT',
+          INVALIDATE_CHUNK_SIZE
+        )
+      : await this.client.sscan(setKey, cursor, 'COUNT', INVALIDATE_CHUNK_SIZE)
+    const regex = stripped ? patternToRegex(stripped) : undefined
+    const members = regex
+      ? scanned.filter((member) => regex.test(stripHashTag(member)))
+      : scanned
+    await this.invalidateStepwise(members, layout)
+    await this.srem(setKey, members)
+    return [next, members]
+  }
+
+  /**
+   * A script may only touch keys in one cluster slot, which holds when
+   * the entry and its indexes share the key's hash tag
+   */
+  private canScript(key: string, layout: EntryIndexLayout): boolean {
+    return (
+      !isCluster(this.client) ||
+      (layout.hashTag && extractHashTag(key) !== null)
+    )
+  }
+
+  /**
+   * The invalidation script's steps as separate commands, for keys whose
+   * indexes span cluster slots. Not atomic.
+   */
+  private async invalidateStepwise(
+    keys: string[],
+    layout: EntryIndexLayout
+  ): Promise<void> {
+    if (keys.length === 0) return
+
+    const tagLists = await this.mget(
+      keys.map((key) => layout.keyTagsPrefix + key)
+    )
+    const batch = this.batch()
+
+    keys.forEach((key, i) => {
+      for (const tag of parseTags(tagLists[i])) {
+        batch.srem(tagSetKey(layout, tag, key), [key])
+      }
+      batch.del([layout.keyTagsPrefix + key])
+
+      if (layout.versionPrefix) {
+        batch.incr(layout.versionPrefix + key)
+        if (layout.versionTTL) {
+          batch.expire(layout.versionPrefix + key, layout.versionTTL)
+        }
+      } else {
+        batch.del([key])
+      }
+    })
+
+    await batch.exec()
+  }
+
+  private async evalScript(
+    script: LuaScript,
+    keys: string[],
+    args: Array<string | number>
+  ): Promise<unknown> {
+    try {
+      return await this.client.evalsha(
+        script.sha,
+        keys.length,
+        ...keys,
+        ...args
+      )
+    } catch (error) {
+      // First run on this server (or after SCRIPT FLUSH): EVAL caches it
+      if (!(error instanceof Error) || !error.message.startsWith('NOSCRIPT')) {
+        throw error
+      }
+      return this.client.eval(script.source, keys.length, ...keys, ...args)
+    }
+  }
+
+  batch(): CacheStoreBatch {
+    return new RedisStoreBatch(this.client)
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.publish(channel, message)
+  }
+
+  async subscribe(
+    channels: string[],
+    handler: (channel: string, message: string) => void
+  ): Promise<() => Promise<void>> {
+    const listener = (channel: string, message: string) => {
+      if (channels.includes(channel)) {
+        handler(channel, message)
+      }
+    }
+
+    await this.subscriber.subscribe(...channels)
+    this.subscriber.on('message', listener)
+
+    return async () => {
+      this.subscriber.off('message', listener)
+      await this.subscriber.unsubscribe(...channels)
+    }
+  }
+
+  async xadd(
+    stream: string,
+    message: string,
+    maxLength: number
+  ): Promise<string> {
+    const id = await this.client.xadd(
+      stream,
+      'MAXLEN',
+      '~',
+      maxLength,
+      '*',
+      'message',
+      message
+    )
+    return id ?? ''
+  }
+
+  async xread(
+    stream: string,
+    lastId: string,
+    options: { count: number; blockMs?: number }
+  ): Promise<StreamEntry[]> {
+    const result =
+      options.blockMs === undefined
+        ? await this.client.xread(
+            'COUNT',
+            options.count,
+            'STREAMS',
+            stream,
+            lastId
+          )
+        : await this.getStreamReader().xread(
+            'COUNT',
+            options.count,
+            'BLOCK',
+            options.blockMs,
+            'STREAMS',
+            stream,
+            lastId
+          )
+    const items = result?.[0]?.[1] ?? []
+
+    return items.map(([id, fields]) => ({
+      id,
+      message: fields[fields.indexOf('message') + 1] ?? '',
+    }))
+  }
+
+  private getStreamReader(): RedisConnection {
+    // Blocking reads hold their connection, so they get a dedicated one
+    if (!this.streamReader) {
+      this.streamReader = this.client.duplicate()
+    }
+    return this.streamReader
+  }
+
+  async xlastId(stream: string): Promise<string> {
+    const [latest] = await this.client.xrevrange(stream, '+', '-', 'COUNT', 1)
+    return latest?.[0] ?? '0-0'
+  }
+
+  async close(): Promise<void> {
+    // A pending blocking read would delay quit, so drop it immediately
+    this.streamReader?.disconnect()
+
+    // Quit all Redis connections gracefully and wait for completion
+    for (const connection of [this.client, this.subscriber, this.publisher]) {
+      try {
+        await connection.quit()
+      } catch (e) {
+        connection.disconnect()
+      }
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import type {
+  CacheDefinition,
+  ScheduledJob,
+  ScheduledJobStatus,
+  ScheduleOptions,
+} from '../types/cache.js'
+import type { CacheStore } from './store.js'
+import type { DistributedLock } from './lock.js'
+import { parseCron, nextCronTime, type CronSchedule } from '../utils/cron.js'
+
+const STATUS_TTL = 7 * 24 * 60 * 60 // 7 days
+
+// Longest delay setTimeout supports; longer ones fire right away
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+const EMPTY_STATUS: ScheduledJobStatus = {
+  runs: 0,
+  lastRunAt: null,
+  lastDurationMs: null,
+  lastResult: null,
+  lastError: null,
+  consecutiveFailures: 0,
+}
+
+/**
+ * A warm job on a timer. Every instance keeps the timer; the one that
+ * takes the lock for a period runs it and records the outcome.
+ */
+class WarmJob<TArgs extends any[], TData> implements ScheduledJob {
+  readonly name: string
+  private cron?: CronSchedule
+  private timer?: ReturnType<typeof setTimeout>
+  private running = false
+  private stopped = false
+
+  constructor(
+    private definition: CacheDefinition<TArgs, TData>,
+    private options: ScheduleOptions<TArgs>,
+    private store: CacheStore,
+    private prefix: string,
+    private lock: DistributedLock,
+    private onError: (error: Error) => void,
+    private onStop: () => void
+  ) {
+    this.name = options.name || definition.name
+
+    if ((options.every === undefined) === (options.cron === undefined)) {
+      throw new Error(
+        'cache.schedule requires exactly one of `every` or `cron`'
+      )
+    }
+    if (options.every !== undefined && !(options.every > 0)) {
+      throw new Error('cache.schedule `every` must be a positive number')
+    }
+    if (options.cron !== undefined) {
+      this.cron = parseCron(options.cron)
+    }
+  }
+
+  start(): void {
+    this.scheduleNext(Date.now())
+  }
+
+  stop(): void {
+    this.stopped = true
+    clearTimeout(this.timer)
+    this.onStop()
+  }
+
+  async getStatus(): Promise<ScheduledJobStatus> {
+    const raw = await this.store.get(this.statusKey())
+    return raw ? (JSON.parse(raw) as ScheduledJobStatus) : { ...EMPTY_STATUS }
+  }
+
+  private nextRunAt(from: number): number {
+    return this.cron
+      ? nextCronTime(this.cron, from)
+      : from + this.options.every!
+  }
+
+  private scheduleNext(from: number): void {
+    if (this.stopped) return
+
+    const runAt = this.nextRunAt(from)
+    this.waitUntil(runAt, () => {
+      this.scheduleNext(runAt)
+      this.tick(runAt).catch((error) => this.onError(error))
+    })
+  }
+
+  /**
+   * Call `run` at `runAt`, in steps of at most MAX_TIMER_DELAY so monthly
+   * crons and long intervals don't overflow the timer
+   */
+  private waitUntil(runAt: number, run: () => void): void {
+    const delay = runAt - Date.now()
+    this.timer =
+      delay > MAX_TIMER_DELAY
+        ? setTimeout(() => this.waitUntil(runAt, run), MAX_TIMER_DELAY)
+        : setTimeout(run, delay)
+    // Scheduling alone should not keep the process alive
+    this.timer.unref?.()
+  }
+
+  private async tick(runAt: number): Promise<void> {
+    if (this.running || this.stopped) return
+
+    // Hold the lock until just before the next run so other instances
+    // firing for the same period skip it
+    const period = this.nextRunAt(runAt) - runAt
+    const token = await this.lock.acquire(
+      `schedule:${this.name}`,
+      Math.max(period - 1000, period / 2)
+    )
+    if (!token) return
+
+    this.running = true
+    try {
+      await this.run()
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async run(): Promise<void> {
+    const previous = await this.getStatus()
+    const startedAt = Date.now()
+    const status: ScheduledJobStatus = {
+      ...previous,
+      runs: previous.runs + 1,
+      lastRunAt: startedAt,
+    }
+
+    try {
+      const entries = await this.options.entries()
+      const { total, succeeded, failed, skipped, errors } =
+        await this.definition.warm(entries, this.options.warm)
+      status.lastResult = { total, succeeded, failed, skipped }
+
+      if (total > 0 && failed === total) {
+        // Nothing was warmed, so the run failed as a whole
+        const cause = errors[0]?.error
+        const error = new Error(
+          `Every entry failed: ${cause instanceof Error ? cause.message : String(cause)}`
+        )
+        status.lastError = error.message
+        status.consecutiveFailures = previous.consecutiveFailures + 1
+        this.onError(error)
+      } else {
+        status.lastError = null
+        status.consecutiveFailures = 0
+      }
+    } catch (error) {
+      status.lastResult = null
+      status.lastError = error instanceof Error ? error.message : String(error)
+      status.consecutiveFailures = previous.consecutiveFailures + 1
+      if (error instanceof Error) this.onError(error)
+    }
+
+    status.lastDurationMs = Date.now() - startedAt
+    await this.store.set(this.statusKey(), JSON.stringify(status), STATUS_TTL)
+  }
+
+  private statusKey(): string {
+    return `${this.prefix}:schedule:${this.name}`
+  }
+}
+
+/**
+ * Runs scheduled warm jobs for a cache until stopped
+ */
+export class Scheduler {
+  private jobs = new Set<ScheduledJob>()
+
+  constructor(
+    private store: CacheStore,
+    private prefix: string,
+    private lock: DistributedLock,
+    private onError: (error: Error) => void
+  ) {}
+
+  schedule<TArgs extends any[], TData>(
+    definition: CacheDefinition<TArgs, TData>,
+    options: ScheduleOptions<TArgs>
+  ): ScheduledJob {
+    const job: WarmJob<TArgs, TData> = new WarmJob(
+      definition,
+      options,
+      this.store,
+      this.prefix,
+      this.lock,
+      this.onError,
+      () => this.jobs.delete(job)
+    )
+    this.jobs.add(job)
+    job.start()
+    return job
+  }
+
+  stopAll(): void {
+    for (const job of this.jobs) job.stop()
+  }
+}
@@ -1,38 +1,242 @@
 import type { Cache } from '../types/cache.js'
 import type { CacheInvalidateEvent } from '../types/events.js'
+import { matchPattern } from '../utils/pattern-match.js'
+import { stripHashTag } from '../utils/key-slot.js'
+
+export interface SSEHandlerOptions {
+  /**
+   * 'local' forwards invalidations emitted by this cache instance.
+   * 'redis' subscribes to the invalidation channel or stream directly, so
+   * any instance serves every invalidation; with the 'redis-streams'
+   * transport, reconnecting clients replay what they missed via
+   * `Last-Event-ID`.
+   */
+  source?: 'local' | 'redis'
+  /**
+   * Milliseconds between keep-alive comments so proxies don't drop idle
+   * connections; 0 disables them
+   */
+  heartbeatInterval?: number
+  /**
+   * Open connections allowed per handler; further requests get a 503
+   */
+  maxConnections?: number
+  /**
+   * Decide whether the client behind `request` may see `event`, e.g. by
+   * checking the session. Runs after the client's own subscriptions.
+   */
+  filter?: (
+    request: Request,
+    event: CacheInvalidateEvent
+  ) => boolean | Promise<boolean>
+}
+
+export interface SSEHandlerMetrics {
+  activeConnections: number
+  totalConnections: number
+  rejectedConnections: number
+  eventsSent: number
+  eventsFiltered: number
+}
+
+/**
+ * Keys, tags and patterns a client subscribed to with the `keys`, `tags`
+ * and `patterns` query params (repeated or comma-separated)
+ */
+interface ClientSubscription {
+  keys: string[]
+  tags: string[]
+  patterns: string[]
+}
+
+function parseSubscription(url: URL): ClientSubscription {
+  const list = (name: string) =>
+    url.searchParams
+      .getAll(name)
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean)
+
+  return {
+    keys: list('keys'),
+    tags: list('tags'),
+    patterns: list('patterns'),
+  }
+}
+
+/**
+ * Key as patterns see it: without the cache prefix and hash-tag braces,
+ * e.g. 'remix-cache:{user}:1' becomes 'user:1'
+ */
+function relativeKey(key: string, prefix: string): string {
+  const stripped = stripHashTag(key)
+  return stripped.startsWith(`${prefix}:`)
+    ? stripped.slice(prefix.length + 1)
+    : stripped
+}
+
+function matchesSubscription(
+  event: CacheInvalidateEvent,
+  subscription: ClientSubscription,
+  prefix: string
+): boolean {
+  const { keys, tags, patterns } = subscription
+
+  // No subscriptions means every invalidation
+  if (keys.length === 0 && tags.length === 0 && patterns.length === 0) {
+    return true
+  }
+
+  const eventKeys = event.key
+    ? [event.key, ...(event.keys || [])]
+    : event.keys || []
+
+  if (eventKeys.some((key) => keys.includes(key))) return true
+  if (event.tag && tags.includes(event.tag)) return true
+  if (event.tags?.some((tag) => tags.includes(tag))) return true
+
+  const relativeKeys = eventKeys.map((key) => relativeKey(key, prefix))
+  return patterns.some(
+    (pattern) =>
+      pattern === event.pattern ||
+      relativeKeys.some((key) => matchPattern(pattern, key))
+  )
+}
 
 /**
  * Creates an SSE (Server-Sent Events) handler for real-time cache invalidation.
  * This is used in long-running server mode to push invalidation events to clients.
  */
-export function createSSEHandler(cache: Cache) {
-  return async function sseLoader({ request }: { request: Request }) {
-    const stream = new ReadableStream({
-      start(controller) {
-        const encoder = new TextEncoder()
-
-        // Handler for invalidation events
-        const handler = (event: CacheInvalidateEvent) => {
-          // Format SSE message
-          const message = `event: invalidate\ndata: ${JSON.stringify(event)}\n\n`
-          controller.enqueue(encoder.encode(message))
-        }
+export function createSSEHandler(
+  cache: Cache,
+  options: SSEHandlerOptions = {}
+) {
+  const source = options.source || 'local'
+  const heartbeatInterval = options.heartbeatInterval ?? 15000
+  const metrics: SSEHandlerMetrics = {
+    activeConnections: 0,
+    totalConnections: 0,
+    rejectedConnections: 0,
+    eventsSent: 0,
+    eventsFiltered: 0,
+  }
 
-        // Subscribe to invalidation events
-        cache.on('invalidate', handler)
-
-        // Clean up when connection closes
-        request.signal.addEventListener('abort', () => {
-          cache.off('invalidate', handler)
-          try {
-            controller.close()
-          } catch (e) {
-            // Controller may already be closed
-          }
-        })
+  async function sseLoader({ request }: { request: Request }) {
+    if (
+      options.maxConnections !== undefined &&
+      metrics.activeConnections >= options.maxConnections
+    ) {
+      metrics.rejectedConnections++
+      return new Response('Too many cache event connections', {
+        status: 503,
+        headers: { 'Retry-After': '5' },
+      })
+    }
+    // Reserve the slot before any await so concurrent requests see it
+    metrics.activeConnections++
+
+    const encoder = new TextEncoder()
+    const subscription = parseSubscription(new URL(request.url))
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController
+      },
+      // The consumer stopped reading without aborting the request
+      cancel() {
+        close()
       },
     })
 
+    const write = (text: string): void => {
+      try {
+        controller.enqueue(encoder.encode(text))
+      } catch (e) {
+        // Controller may already be closed
+      }
+    }
+
+    // Format SSE message, with the stream entry ID when there is one
+    const send = (event: CacheInvalidateEvent, id?: string) => {
+      const idLine = id ? `id: ${id}\n` : ''
+      metrics.eventsSent++
+      write(`${idLine}event: invalidate\ndata: ${JSON.stringify(event)}\n\n`)
+    }
+
+    // Filters may be async, so deliveries are chained to keep their order
+    let pending = Promise.resolve()
+    const deliver = (event: CacheInvalidateEvent, id?: string) => {
+      if (!matchesSubscription(event, subscription, cache.prefix)) {
+        metrics.eventsFiltered++
+        return
+      }
+      if (!options.filter) {
+        send(event, id)
+        return
+      }
+
+      const filter = options.filter
+      pending = pending.then(async () => {
+        let allowed = false
+        try {
+          allowed = await filter(request, event)
+        } catch (e) {
+          // Treat a failing filter as a denial
+        }
+        if (allowed) {
+          send(event, id)
+        } else {
+          metrics.eventsFiltered++
+        }
+      })
+    }
+
+    // Subscribe to invalidation events
+    let unsubscribe: () => void
+    if (source === 'redis') {
+      try {
+        unsubscribe = await cache.subscribeInvalidations(deliver, {
+          lastEventId: request.headers.get('Last-Event-ID') || undefined,
+        })
+      } catch (error) {
+        metrics.activeConnections--
+        throw error
+      }
+    } else {
+      cache.on('invalidate', deliver)
+      unsubscribe = () => cache.off('invalidate', deliver)
+    }
+
+    metrics.totalConnections++
+
+    // Keep idle connections alive through proxies and load balancers
+    const heartbeat =
+      heartbeatInterval > 0
+        ? setInterval(() => write(': heartbeat\n\n'), heartbeatInterval)
+        : undefined
+
+    // Clean up when connection closes, once for abort and cancel alike
+    let closed = false
+    const close = () => {
+      if (closed) return
+      closed = true
+      request.signal.removeEventListener('abort', close)
+      metrics.activeConnections--
+      clearInterval(heartbeat)
+      unsubscribe()
+      try {
+        controller.close()
+      } catch (e) {
+        // Controller may already be closed
+      }
+    }
+    if (request.signal.aborted) {
+      close()
+    } else {
+      request.signal.addEventListener('abort', close, { once: true })
+    }
+
     // Return SSE response
     return new Response(stream, {
       headers: {
@@ -42,6 +246,10 @@ export function createSSEHandler(cache: Cache) {
       },
     })
   }
+
+  return Object.assign(sseLoader, {
+    getMetrics: (): SSEHandlerMetrics => ({ ...metrics }),
+  })
 }
 
 /**
@@ -0,0 +1,165 @@
+import { extractHashTag } from '../utils/key-slot.js'
+
+/**
+ * Storage backend abstraction used by every cache subsystem.
+ * Values are already-serialized strings; TTLs are in seconds unless
+ * named `ttlMs`.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>
+  mget(keys: string[]): Promise<Array<string | null>>
+  set(key: string, value: string, ttl?: number): Promise<void>
+  del(keys: string[]): Promise<number>
+  expire(key: string, ttl: number): Promise<void>
+  incr(key: string): Promise<number>
+  /**
+   * Set `key` only if it does not exist; resolves to whether it was set
+   */
+  setnx(key: string, value: string, ttlMs: number): Promise<boolean>
+  /**
+   * Delete `key` only if it still holds `value`, atomically
+   */
+  delIfEquals(key: string, value: string): Promise<boolean>
+
+  sadd(key: string, members: string[]): Promise<void>
+  srem(key: string, members: string[]): Promise<void>
+  smembers(key: string): Promise<string[]>
+  /**
+   * Add members and extend the set's TTL to at least `ttl`, never
+   * shortening it; without `ttl` the set no longer expires
+   */
+  saddExtend(key: string, members: string[], ttl?: number): Promise<void>
+  /**
+   * Iterate a set's members in batches of about `count` (SSCAN)
+   */
+  sscan(key: string, count: number): AsyncIterable<string[]>
+  /**
+   * Iterate the keys matching a glob pattern in batches of about `count`
+   * (SCAN, across every master on a cluster)
+   */
+  scan(match: string, count: number): AsyncIterable<string[]>
+  /**
+   * Whether each key exists, in order
+   */
+  exists(keys: string[]): Promise<boolean[]>
+  /**
+   * Remove and return every member of a set, atomically
+   */
+  takeMembers(key: string): Promise<string[]>
+
+  /**
+   * Delete entries along with their tag index entries. Each chunk of
+   * keys is handled atomically (per hash slot on a cluster).
+   */
+  invalidateKeys(keys: string[], layout: EntryIndexLayout): Promise<void>
+  /**
+   * Invalidate the members of an index set like `invalidateKeys` and
+   * remove them from it, in chunks. Each chunk atomically reads
+   * members and deletes them, so keys added meanwhile keep their index
+   * entries. Resolves to the keys invalidated.
+   */
+  invalidateMembers(
+    setKey: string,
+    options: InvalidateMembersOptions
+  ): Promise<string[]>
+
+  /**
+   * Start a batch of writes that are sent in a single round trip
+   */
+  batch(): CacheStoreBatch
+
+  publish(channel: string, message: string): Promise<void>
+  /**
+   * Subscribe to channels; resolves to a function that ends the subscription
+   */
+  subscribe(
+    channels: string[],
+    handler: (channel: string, message: string) => void
+  ): Promise<() => Promise<void>>
+
+  /**
+   * Append a message to a stream, trimming it to about `maxLength` entries
+   */
+  xadd(stream: string, message: string, maxLength: number): Promise<string>
+  /**
+   * Read messages after `lastId`. With `blockMs`, waits up to that long
+   * for new ones; without it, returns immediately.
+   */
+  xread(
+    stream: string,
+    lastId: string,
+    options: { count: number; blockMs?: number }
+  ): Promise<StreamEntry[]>
+  /**
+   * ID of the newest stream entry, or '0-0' when the stream is empty
+   */
+  xlastId(stream: string): Promise<string>
+
+  close(): Promise<void>
+}
+
+/**
+ * Where the cache keeps an entry's indexes, so the store can clean them
+ * up along with the entry
+ */
+export interface EntryIndexLayout {
+  /**
+   * `${keyTagsPrefix}${key}` holds the JSON array of a key's tags
+   */
+  keyTagsPrefix: string
+  /**
+   * `${tagPrefix}${tag}` is a tag's set of keys
+   */
+  tagPrefix: string
+  /**
+   * Tag sets are split per hash tag: `${tagPrefix}${tag}:{<hash tag>}`
+   */
+  hashTag: boolean
+  /**
+   * For versioned entries, `${versionPrefix}${key}` is incremented (and
+   * kept for `versionTTL` seconds) instead of deleting the key
+   */
+  versionPrefix?: string
+  versionTTL?: number
+}
+
+export interface InvalidateMembersOptions {
+  layout: EntryIndexLayout
+  /**
+   * Only members matching this pattern (`utils/pattern-match` syntax) are
+   * invalidated. With `layout.hashTag`, members are matched without their
+   * hash-tag braces.
+   */
+  match?: string
+}
+
+/**
+ * Set of `tag` that holds `key` under `layout`
+ */
+export function tagSetKey(
+  layout: EntryIndexLayout,
+  tag: string,
+  key: string
+): string {
+  const name = layout.hashTag ? extractHashTag(key) : null
+  return name ? `${layout.tagPrefix}${tag}:{${name}}` : layout.tagPrefix + tag
+}
+
+export interface StreamEntry {
+  id: string
+  message: string
+}
+
+/**
+ * Queued writes executed together by `exec()`
+ */
+export interface CacheStoreBatch {
+  set(key: string, value: string, ttl?: number): this
+  del(keys: string[]): this
+  expire(key: string, ttl: number): this
+  incr(key: string): this
+  sadd(key: string, members: string[]): this
+  srem(key: string, members: string[]): this
+  saddExtend(key: string, members: string[], ttl?: number): this
+  exec(): Promise<void>
+}
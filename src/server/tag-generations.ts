@@ -0,0 +1,77 @@
+import type { CacheStore } from './store.js'
+
+/**
+ * Tag generations recorded in a stored entry, if any
+ */
+export function recordedGenerations(
+  value: unknown
+): Record<string, number> | undefined {
+  if (value && typeof value === 'object' && 'tagGenerations' in value) {
+    return value.tagGenerations as Record<string, number>
+  }
+  return undefined
+}
+
+/**
+ * Per-tag generation counters for the 'generation' tag strategy.
+ * Entries record the generation of each of their tags when written;
+ * invalidating a tag increments its counter, which outdates every entry
+ * written before, without knowing which keys those are.
+ */
+export class TagGenerations {
+  constructor(
+    private store: CacheStore,
+    private prefix: string
+  ) {}
+
+  /**
+   * Current generation of each tag (0 until first invalidated)
+   */
+  async current(tags: string[]): Promise<Record<string, number>> {
+    const unique = [...new Set(tags)]
+    if (unique.length === 0) return {}
+
+    const values = await this.store.mget(
+      unique.map((tag) => this.generationKey(tag))
+    )
+    return Object.fromEntries(
+      unique.map((tag, i) => [tag, Number(values[i] ?? 0)])
+    )
+  }
+
+  /**
+   * Invalidate tags by advancing their generations
+   */
+  async bump(tags: string[]): Promise<void> {
+    if (tags.length === 0) return
+
+    const batch = this.store.batch()
+    for (const tag of tags) {
+      batch.incr(this.generationKey(tag))
+    }
+    await batch.exec()
+  }
+
+  /**
+   * Whether each entry has a tag invalidated since it was written, with
+   * one read for every tag involved
+   */
+  async outdated(values: unknown[]): Promise<boolean[]> {
+    const records = values.map(recordedGenerations)
+    const tags = records.flatMap((record) => Object.keys(record || {}))
+    if (tags.length === 0) return values.map(() => false)
+
+    const current = await this.current(tags)
+    return records.map(
+      (record) =>
+        !!record &&
+        Object.entries(record).some(
+          ([tag, generation]) => (current[tag] ?? 0) > generation
+        )
+    )
+  }
+
+  private generationKey(tag: string): string {
+    return `${this.prefix}:tag-gen:${tag}`
+  }
+}
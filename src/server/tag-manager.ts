@@ -1,61 +1,236 @@
-import type Redis from 'ioredis'
+import type { CacheStore, CacheStoreBatch, EntryIndexLayout } from './store.js'
+import type { GcResult } from '../types/cache.js'
+import { extractHashTag } from '../utils/key-slot.js'
 
 /**
  * Manages tag indexing for cache invalidation.
- * Maintains Redis sets mapping tags to cache keys.
+ * Maintains sets mapping tags to cache keys.
+ *
+ * With hash tags enabled, each tag is split into one set per definition
+ * (`prefix:tag:<tag>:{<name>}`) that shares a cluster slot with that
+ * definition's keys, plus a registry set of the definitions using the tag.
+ *
+ * A reverse index (`prefix:key-tags:<key>`) records each key's tags, so
+ * overwrites and deletes can drop the key from tags it no longer has. Tag
+ * sets expire with their longest-lived member, and `prune` sweeps members
+ * whose key expired in between.
+ *
+ * Tags are hierarchical, with `:` between levels. Each tag is registered
+ * under its ancestors (`prefix:tag-tree:<ancestor>`) so `org:42:*` can be
+ * resolved to every tag below `org:42`.
  */
 export class TagManager {
   constructor(
-    private redis: Redis,
-    private prefix: string
+    private store: CacheStore,
+    private prefix: string,
+    private hashTag = false
   ) {}
 
   /**
-   * Add tags for a cache key
+   * Set the tags of a cache key, dropping it from tags it no longer has.
+   * `ttl` is the entry's TTL in seconds; tag sets live at least as long
+   * as their longest-lived member.
    */
-  async addTags(key: string, tags: string[]): Promise<void> {
-    if (tags.length === 0) return
+  async setTags(key: string, tags: string[], ttl?: number): Promise<void> {
+    const [previous = []] = await this.getTags([key])
+    if (tags.length === 0 && previous.length === 0) return
+
+    const batch = this.store.batch()
+    this.queueSetTags(batch, key, tags, ttl, previous)
+    await batch.exec()
+  }
+
+  /**
+   * Queue the index writes of `setTags` on an existing batch, given the
+   * key's `previous` tags from `getTags`
+   */
+  queueSetTags(
+    batch: CacheStoreBatch,
+    key: string,
+    tags: string[],
+    ttl: number | undefined,
+    previous: string[] = []
+  ): void {
+    const name = this.getName(key)
 
-    const pipeline = this.redis.pipeline()
+    for (const tag of previous) {
+      if (!tags.includes(tag)) {
+        batch.srem(this.tagKey(tag, name), [key])
+      }
+    }
 
     for (const tag of tags) {
-      const tagKey = `${this.prefix}:tag:${tag}`
-      pipeline.sadd(tagKey, key)
+      batch.saddExtend(this.tagKey(tag, name), [key], ttl)
+      if (name) {
+        batch.saddExtend(this.registryKey(tag), [name], ttl)
+      }
     }
 
-    await pipeline.exec()
+    if (tags.length > 0) {
+      batch.set(this.keyTagsKey(key), JSON.stringify(tags), ttl)
+    } else {
+      batch.del([this.keyTagsKey(key)])
+    }
+
+    this.queueRegisterTags(batch, tags, ttl)
+  }
+
+  /**
+   * Register tags under each of their ancestors (`org` and `org:42` for
+   * `org:42:project:7`), so wildcard invalidation can find them
+   */
+  async registerTags(tags: string[], ttl?: number): Promise<void> {
+    const batch = this.store.batch()
+    this.queueRegisterTags(batch, tags, ttl)
+    await batch.exec()
+  }
+
+  /**
+   * Queue the registry writes of `registerTags` on an existing batch
+   */
+  queueRegisterTags(
+    batch: CacheStoreBatch,
+    tags: string[],
+    ttl: number | undefined
+  ): void {
+    for (const tag of tags) {
+      const segments = tag.split(':')
+      for (let depth = 1; depth < segments.length; depth++) {
+        const ancestor = segments.slice(0, depth).join(':')
+        batch.saddExtend(this.descendantsKey(ancestor), [tag], ttl)
+      }
+    }
+  }
+
+  /**
+   * Every registered tag below `parent`. The registry is left as is, so a
+   * failed invalidation finds the same tags when retried.
+   */
+  async getDescendants(parent: string): Promise<string[]> {
+    return this.store.smembers(this.descendantsKey(parent))
+  }
+
+  /**
+   * Drop invalidated tags from `parent`'s registry. Tags written again
+   * after this register again, so the next wildcard invalidation finds them.
+   */
+  async removeDescendants(parent: string, tags: string[]): Promise<void> {
+    if (tags.length === 0) return
+    await this.store.srem(this.descendantsKey(parent), tags)
+  }
+
+  /**
+   * Current tags of each key, from the reverse index
+   */
+  async getTags(keys: string[]): Promise<string[][]> {
+    if (keys.length === 0) return []
+
+    const values = await this.store.mget(
+      keys.map((key) => this.keyTagsKey(key))
+    )
+    return values.map((value) => (value ? (JSON.parse(value) as string[]) : []))
   }
 
   /**
    * Get all keys for a tag
    */
   async getKeysByTag(tag: string): Promise<string[]> {
-    const tagKey = `${this.prefix}:tag:${tag}`
-    return this.redis.smembers(tagKey)
+    const tagKeys = await this.getTagKeys(tag)
+    const members = await Promise.all(
+      tagKeys.map((tagKey) => this.store.smembers(tagKey))
+    )
+    return [...new Set(members.flat())]
   }
 
   /**
-   * Remove tags for a key
+   * Where entries' tag indexes live, for store-side invalidation
    */
-  async removeTags(key: string, tags: string[]): Promise<void> {
-    if (tags.length === 0) return
+  indexLayout(): EntryIndexLayout {
+    return {
+      keyTagsPrefix: `${this.prefix}:key-tags:`,
+      tagPrefix: `${this.prefix}:tag:`,
+      hashTag: this.hashTag,
+    }
+  }
 
-    const pipeline = this.redis.pipeline()
+  /**
+   * Delete keys and drop them from every tag they had, atomically per key
+   */
+  async invalidateKeys(
+    keys: string[],
+    layout = this.indexLayout()
+  ): Promise<void> {
+    if (keys.length === 0) return
+    await this.store.invalidateKeys(keys, layout)
+  }
 
-    for (const tag of tags) {
-      const tagKey = `${this.prefix}:tag:${tag}`
-      pipeline.srem(tagKey, key)
+  /**
+   * Delete every key with a tag, emptying its tag sets chunk by chunk.
+   * Keys tagged while this runs keep their membership. Resolves to the
+   * keys deleted.
+   */
+  async invalidateTag(
+    tag: string,
+    layout = this.indexLayout()
+  ): Promise<string[]> {
+    // Taking the registry first means definitions that tag a key
+    // meanwhile register again, so their set is found next time
+    const names = this.hashTag
+      ? await this.store.takeMembers(this.registryKey(tag))
+      : []
+    const tagKeys = [
+      this.tagKey(tag),
+      ...names.map((name) => this.tagKey(tag, name)),
+    ]
+
+    const keys = new Set<string>()
+    for (const tagKey of tagKeys) {
+      const members = await this.store.invalidateMembers(tagKey, { layout })
+      for (const key of members) keys.add(key)
+    }
+    return [...keys]
+  }
+
+  /**
+   * Remove tag members whose key no longer exists, scanning tag sets and
+   * their members in batches of `batchSize`. `exists` reports which keys
+   * still hold a value.
+   */
+  async prune(
+    exists: (keys: string[]) => Promise<boolean[]>,
+    batchSize: number
+  ): Promise<GcResult> {
+    const result: GcResult = { tagSets: 0, removed: 0 }
+
+    for await (const tagKeys of this.store.scan(
+      `${this.prefix}:tag:*`,
+      batchSize
+    )) {
+      for (const tagKey of tagKeys) {
+        result.tagSets++
+        for await (const members of this.store.sscan(tagKey, batchSize)) {
+          const alive = await exists(members)
+          const dead = members.filter((_, i) => !alive[i])
+          if (dead.length > 0) {
+            await this.store.srem(tagKey, dead)
+            result.removed += dead.length
+          }
+        }
+      }
+    }
+
+    if (this.hashTag) {
+      await this.pruneRegistries(batchSize)
     }
 
-    await pipeline.exec()
+    return result
   }
 
   /**
    * Delete tag index
    */
   async deleteTag(tag: string): Promise<void> {
-    const tagKey = `${this.prefix}:tag:${tag}`
-    await this.redis.del(tagKey)
+    await this.deleteTags([tag])
   }
 
   /**
@@ -64,7 +239,69 @@ export class TagManager {
   async deleteTags(tags: string[]): Promise<void> {
     if (tags.length === 0) return
 
-    const tagKeys = tags.map((tag) => `${this.prefix}:tag:${tag}`)
-    await this.redis.del(...tagKeys)
+    const tagKeys = await Promise.all(tags.map((tag) => this.getTagKeys(tag)))
+    const registryKeys = this.hashTag
+      ? tags.map((tag) => this.registryKey(tag))
+      : []
+    await this.store.del([...tagKeys.flat(), ...registryKeys])
+  }
+
+  /**
+   * Drop definition names whose per-definition tag set is gone
+   */
+  private async pruneRegistries(batchSize: number): Promise<void> {
+    const registryPrefix = `${this.prefix}:tag-names:`
+
+    for await (const registryKeys of this.store.scan(
+      `${registryPrefix}*`,
+      batchSize
+    )) {
+      for (const registryKey of registryKeys) {
+        const tag = registryKey.slice(registryPrefix.length)
+        const names = await this.store.smembers(registryKey)
+        const alive = await this.store.exists(
+          names.map((name) => this.tagKey(tag, name))
+        )
+        await this.store.srem(
+          registryKey,
+          names.filter((_, i) => !alive[i])
+        )
+      }
+    }
+  }
+
+  private async getTagKeys(tag: string): Promise<string[]> {
+    if (!this.hashTag) {
+      return [this.tagKey(tag)]
+    }
+
+    const names = await this.store.smembers(this.registryKey(tag))
+    return [this.tagKey(tag), ...names.map((name) => this.tagKey(tag, name))]
+  }
+
+  private getName(key: string): string | undefined {
+    return this.hashTag ? (extractHashTag(key) ?? undefined) : undefined
+  }
+
+  private tagKey(tag: string, name?: string): string {
+    return name
+      ? `${this.prefix}:tag:${tag}:{${name}}`
+      : `${this.prefix}:tag:${tag}`
+  }
+
+  private registryKey(tag: string): string {
+    return `${this.prefix}:tag-names:${tag}`
+  }
+
+  private descendantsKey(tag: string): string {
+    return `${this.prefix}:tag-tree:${tag}`
+  }
+
+  /**
+   * Reverse index entry listing a key's tags. Contains the key, so with
+   * hash tags it shares the key's cluster slot.
+   */
+  private keyTagsKey(key: string): string {
+    return `${this.prefix}:key-tags:${key}`
   }
 }
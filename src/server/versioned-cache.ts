@@ -1,4 +1,4 @@
-import type Redis from 'ioredis'
+import type { CacheStore, CacheStoreBatch, EntryIndexLayout } from './store.js'
 import type { Serializer } from './serializer.js'
 
 /**
@@ -7,7 +7,7 @@ import type { Serializer } from './serializer.js'
  */
 export class VersionedCache {
   constructor(
-    private redis: Redis,
+    private store: CacheStore,
     private serializer: Serializer,
     private prefix: string
   ) {}
@@ -15,11 +15,11 @@ export class VersionedCache {
   async get<T>(key: string): Promise<T | null> {
     // Get current version
     const versionKey = `${this.prefix}:version:${key}`
-    const version = (await this.redis.get(versionKey)) || '0'
+    const version = (await this.store.get(versionKey)) || '0'
 
     // Try to get versioned cache
     const versionedKey = `${this.prefix}:${key}:v${version}`
-    const cached = await this.redis.get(versionedKey)
+    const cached = await this.store.get(versionedKey)
 
     if (!cached) {
       return null
@@ -28,47 +28,101 @@ export class VersionedCache {
     return this.serializer.deserialize<T>(cached)
   }
 
+  async getMany<T>(keys: string[]): Promise<Array<T | null>> {
+    if (keys.length === 0) return []
+
+    // Resolve every current version, then read the versioned keys
+    const versions = await this.store.mget(
+      keys.map((key) => `${this.prefix}:version:${key}`)
+    )
+    const cached = await this.store.mget(
+      keys.map((key, i) => `${this.prefix}:${key}:v${versions[i] || '0'}`)
+    )
+
+    return cached.map((value) =>
+      value ? this.serializer.deserialize<T>(value) : null
+    )
+  }
+
   async set<T>(key: string, value: T, ttl?: number): Promise<void> {
     // Get current version
     const versionKey = `${this.prefix}:version:${key}`
-    let version = await this.redis.get(versionKey)
+    let version = await this.store.get(versionKey)
 
     // Initialize version if it doesn't exist
     if (!version) {
       version = '0'
-      await this.redis.set(versionKey, version)
-      await this.redis.expire(versionKey, 86400) // 24 hours
+      await this.store.set(versionKey, version, 86400) // 24 hours
     }
 
     // Set versioned cache
     const versionedKey = `${this.prefix}:${key}:v${version}`
     const serialized = this.serializer.serialize(value)
 
-    if (ttl) {
-      await this.redis.setex(versionedKey, ttl, serialized)
-    } else {
-      await this.redis.set(versionedKey, serialized)
+    await this.store.set(versionedKey, serialized, ttl)
+  }
+
+  /**
+   * Resolve the current versioned key for each key, queueing version
+   * initialization on `batch` for keys that have none yet
+   */
+  async resolveKeys(keys: string[], batch: CacheStoreBatch): Promise<string[]> {
+    const versions = await this.store.mget(
+      keys.map((key) => `${this.prefix}:version:${key}`)
+    )
+
+    return keys.map((key, i) => {
+      const version = versions[i]
+      if (!version) {
+        batch.set(`${this.prefix}:version:${key}`, '0', 86400) // 24 hours
+      }
+      return `${this.prefix}:${key}:v${version || '0'}`
+    })
+  }
+
+  /**
+   * Whether each key holds a value at its current version
+   */
+  async exists(keys: string[]): Promise<boolean[]> {
+    if (keys.length === 0) return []
+
+    const versions = await this.store.mget(
+      keys.map((key) => `${this.prefix}:version:${key}`)
+    )
+    return this.store.exists(
+      keys.map((key, i) => `${this.prefix}:${key}:v${versions[i] || '0'}`)
+    )
+  }
+
+  /**
+   * `layout` with entries invalidated by bumping their version
+   */
+  versioned(layout: EntryIndexLayout): EntryIndexLayout {
+    return {
+      ...layout,
+      versionPrefix: `${this.prefix}:version:`,
+      versionTTL: 86400, // 24 hours
     }
   }
 
   async invalidate(key: string): Promise<void> {
     // Increment version - old cache becomes orphaned
     const versionKey = `${this.prefix}:version:${key}`
-    await this.redis.incr(versionKey)
+    await this.store.incr(versionKey)
 
     // Set TTL on version key to prevent infinite growth
-    await this.redis.expire(versionKey, 86400) // 24 hours
+    await this.store.expire(versionKey, 86400) // 24 hours
   }
 
   async invalidateMany(keys: string[]): Promise<void> {
-    const pipeline = this.redis.pipeline()
+    const batch = this.store.batch()
 
     for (const key of keys) {
       const versionKey = `${this.prefix}:version:${key}`
-      pipeline.incr(versionKey)
-      pipeline.expire(versionKey, 86400)
+      batch.incr(versionKey)
+      batch.expire(versionKey, 86400)
     }
 
-    await pipeline.exec()
+    await batch.exec()
   }
 }
@@ -0,0 +1,97 @@
+import type { Cache, CacheDefinition } from '../types/cache.js'
+import {
+  INVALIDATION_HEADER,
+  encodeInvalidationHeader,
+  withInvalidationData,
+  type InvalidationHeaderValue,
+} from '../utils/invalidation-header.js'
+
+export interface WithInvalidationOptions<TArgs, TResult> {
+  /**
+   * Tags to invalidate, given the action's result and arguments
+   */
+  tags?: (result: TResult, args: TArgs) => string[]
+  /**
+   * Definitions whose entries are all invalidated
+   */
+  definitions?: Array<CacheDefinition<any, any>>
+}
+
+/**
+ * Parsed body of a JSON response, or undefined for any other response
+ */
+async function readJson(response: Response): Promise<unknown> {
+  const type = response.headers.get('Content-Type') ?? ''
+  if (!type.includes('application/json') || !response.body) return undefined
+
+  return response
+    .clone()
+    .json()
+    .catch(() => undefined)
+}
+
+/**
+ * Copy a response with the invalidations in its header and, for a JSON
+ * object body, in the body too
+ */
+async function withInvalidationResponse(
+  response: Response,
+  value: InvalidationHeaderValue
+): Promise<Response> {
+  const headers = new Headers(response.headers)
+  headers.set(INVALIDATION_HEADER, encodeInvalidationHeader(value))
+
+  const data = await readJson(response)
+  const annotated = withInvalidationData(data, value)
+  if (annotated !== data) headers.delete('Content-Length')
+
+  return new Response(
+    annotated !== data ? JSON.stringify(annotated) : response.body,
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    }
+  )
+}
+
+/**
+ * Wraps a Remix action so its invalidations run after it succeeds (returns
+ * without throwing, and not an error Response). They are published as one
+ * message, and listed for the current tab to revalidate right away:
+ *
+ * - in object data, plain or in a JSON Response, under
+ *   `INVALIDATION_DATA_KEY`, which `useActionInvalidation` reads from
+ *   `useActionData()` or `fetcher.data`
+ * - in the `X-Cache-Invalidate` header of a Response, which
+ *   `useReportInvalidation` reads from responses fetched by hand
+ *
+ * Other results (arrays, primitives, bodies that aren't a JSON object)
+ * only reach the tab over SSE or polling.
+ */
+export function withInvalidation<TArgs, TResult>(
+  cache: Cache,
+  action: (args: TArgs) => TResult | Promise<TResult>,
+  options: WithInvalidationOptions<TArgs, TResult>
+): (args: TArgs) => Promise<TResult> {
+  return async function actionWithInvalidation(args: TArgs) {
+    const result = await action(args)
+    if (result instanceof Response && result.status >= 400) {
+      return result
+    }
+
+    const { tags, keys } = await cache.invalidateBatch({
+      tags: options.tags?.(result, args),
+      patterns: options.definitions?.map(
+        (definition) => `${definition.name}:*`
+      ),
+    })
+    if (tags.length === 0 && keys.length === 0) return result
+
+    const value = { tags, keys, timestamp: Date.now() }
+    if (!(result instanceof Response)) {
+      return withInvalidationData(result, value)
+    }
+    return (await withInvalidationResponse(result, value)) as TResult
+  }
+}
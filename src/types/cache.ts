@@ -1,35 +1,290 @@
-import type { TTLValue } from './config.js'
-import type { CacheEventEmitter } from './events.js'
+import type { ErrorStrategy, TTLValue } from './config.js'
+import type { CacheEventEmitter, CacheInvalidateEvent } from './events.js'
 
 export type { CacheConfig } from './config.js'
 
 export interface Cache extends CacheEventEmitter {
+  /**
+   * Prefix of every key this cache writes (`prefix` config, 'remix-cache'
+   * by default)
+   */
+  readonly prefix: string
+
   define: <TArgs extends any[], TData>(
     config: CacheDefinitionConfig<TArgs, TData>
   ) => CacheDefinition<TArgs, TData>
 
+  /**
+   * Invalidate a tag. Tags are hierarchical, with `:` between levels:
+   * `org:42:*` invalidates `org:42` and every tag below it, like
+   * `invalidateTagPrefix('org:42')`.
+   */
   invalidateTag: (tag: string) => Promise<void>
+  /**
+   * Invalidate `parent` and every tag below it (`parent:...`), published
+   * as one invalidation message listing the tags
+   */
+  invalidateTagPrefix: (parent: string) => Promise<void>
   invalidatePattern: (pattern: string) => Promise<void>
   invalidateMany: (keys: string[]) => Promise<void>
+  /**
+   * Invalidate tags, patterns and keys together, published as a single
+   * invalidation message. Resolves to the tags and keys invalidated.
+   */
+  invalidateBatch: (
+    targets: InvalidationTargets
+  ) => Promise<InvalidationSummary>
+
+  /**
+   * Remove tag index entries whose key has expired or been deleted,
+   * scanning tag sets in batches. Safe to run while the cache is in use.
+   */
+  gc: (options?: GcOptions) => Promise<GcResult>
+
+  getHealth: () => CacheHealth
+  /**
+   * Invalidations recorded after `cursor` (polling revalidation)
+   */
+  readInvalidations: (cursor?: string) => Promise<InvalidationPage>
+  /**
+   * Run `definition.warm` periodically (server mode only). Each run takes
+   * a store lock, so one instance per cluster warms per period.
+   */
+  schedule: <TArgs extends any[], TData>(
+    definition: CacheDefinition<TArgs, TData>,
+    options: ScheduleOptions<TArgs>
+  ) => ScheduledJob
+  /**
+   * Receive every invalidation published to the store, including this
+   * instance's own. With the 'redis-streams' transport, `id` is the stream
+   * entry ID and `lastEventId` replays the events published after it.
+   * Resolves to an unsubscribe function.
+   */
+  subscribeInvalidations: (
+    handler: InvalidationListener,
+    options?: { lastEventId?: string }
+  ) => Promise<() => void>
+  /**
+   * Stop scheduled jobs, unsubscribe from pub/sub and close the store
+   */
+  close: () => Promise<void>
+}
+
+export type InvalidationListener = (
+  event: CacheInvalidateEvent,
+  id?: string
+) => void
+
+export interface InvalidationTargets {
+  /**
+   * Tags, where `parent:*` stands for `parent` and every tag below it
+   */
+  tags?: string[]
+  /**
+   * Patterns in the `invalidatePattern` format, e.g. 'user:*'
+   */
+  patterns?: string[]
+  keys?: string[]
+}
+
+export interface InvalidationSummary {
+  tags: string[]
+  keys: string[]
+}
+
+export interface GcOptions {
+  /**
+   * Tag sets and members read per SCAN/SSCAN call (default 100)
+   */
+  batchSize?: number
+}
+
+export interface GcResult {
+  /**
+   * Tag sets scanned
+   */
+  tagSets: number
+  /**
+   * Members removed because their key no longer exists
+   */
+  removed: number
+}
+
+export interface InvalidationPage {
+  events: CacheInvalidateEvent[]
+  cursor: string
+  /**
+   * The log was trimmed past the cursor, so events may be missing and
+   * clients should revalidate everything
+   */
+  reset?: boolean
+}
+
+export interface CacheHealth {
+  mode: 'server' | 'serverless'
+  circuit: {
+    state: 'open' | 'closed' | 'half-open'
+    failures: number
+    /**
+     * Epoch ms when an open circuit retries the backend, null otherwise
+     */
+    nextRetryAt: number | null
+  }
 }
 
 export interface CacheDefinitionConfig<TArgs extends any[], TData> {
   name: string
   key: (...args: TArgs) => string
   fetch?: (...args: TArgs) => Promise<TData>
+  /**
+   * Load the misses of `getMany` in one call. Results are matched to
+   * `argsList` by position; null or undefined means not found.
+   */
+  fetchMany?: (argsList: TArgs[]) => Promise<Array<TData | null | undefined>>
   tags?: (...args: TArgs) => string[]
   ttl?: TTLValue<TData>
   staleWhileRevalidate?: number
-  dedupe?: boolean
+  /**
+   * Seconds to keep a value after its stale period and serve it when
+   * `fetch` fails, instead of throwing. Requires a TTL.
+   */
+  staleIfError?: number
+  /**
+   * Refresh hot keys in the background shortly before they expire
+   * (probabilistic early expiration). A number sets beta (default 1);
+   * higher values refresh earlier. Requires a TTL.
+   */
+  earlyRecompute?: boolean | number
+  /**
+   * Coalesce concurrent fetches for a key (default true). 'distributed'
+   * also takes a store lock so one instance in the cluster fetches while
+   * the others wait for its result.
+   */
+  dedupe?: boolean | 'distributed'
+  /**
+   * Milliseconds to hold the fetch lock and to wait on another instance's
+   * fetch with `dedupe: 'distributed'` (default 5000)
+   */
+  lockTimeout?: number
   invalidates?: (...args: TArgs) => string[]
+  /**
+   * Overrides `onError.strategy` for this definition
+   */
+  onError?: ErrorStrategy
 }
 
 export interface CacheDefinition<TArgs extends any[], TData> {
+  readonly name: string
   get: (...args: TArgs) => Promise<TData | null>
+  /**
+   * Like `get`, with where the value came from, its age and staleness
+   */
+  getWithMeta: (...args: TArgs) => Promise<CacheResult<TData>>
   set: (...args: [...TArgs, TData]) => Promise<void>
   invalidate: (...args: TArgs) => Promise<void>
   getMany: (keys: TArgs[]) => Promise<Array<TData | null>>
   setMany: (entries: Array<{ args: TArgs; value: TData }>) => Promise<void>
   invalidateMany: (keys: TArgs[]) => Promise<void>
-  warm: (entries: Array<{ args: TArgs; value?: TData } | TArgs>) => Promise<void>
+  warm: (
+    entries: Array<{ args: TArgs; value?: TData } | TArgs>,
+    options?: WarmOptions
+  ) => Promise<WarmResult<TArgs>>
+}
+
+export interface CacheResult<TData> {
+  data: TData | null
+  /**
+   * 'fetch' when loaded by this call, including when nothing was found
+   */
+  source: 'local' | 'redis' | 'fetch'
+  /**
+   * Epoch ms the value was written, or null when unknown or not found
+   */
+  storedAt: number | null
+  /**
+   * Epoch ms the TTL runs out, or null without a fixed TTL
+   */
+  expiresAt: number | null
+  /**
+   * Epoch ms until which `staleWhileRevalidate` serves the value, or null
+   * without a fixed TTL
+   */
+  staleUntil: number | null
+  /**
+   * The value is past its TTL: served while revalidating, or kept by
+   * `staleIfError` or the 'stale' error strategy after a failure
+   */
+  isStale: boolean
+  /**
+   * Seconds until `expiresAt` (0 once stale), or null without a fixed TTL
+   */
+  ttlRemaining: number | null
+  tags: string[]
+}
+
+export interface WarmOptions {
+  /**
+   * Maximum `fetch` calls in flight (default 10)
+   */
+  concurrency?: number
+  /**
+   * Entries fetched and written per batch (default 1000)
+   */
+  chunkSize?: number
+  onProgress?: (progress: WarmProgress) => void
+}
+
+export interface WarmProgress {
+  total: number
+  succeeded: number
+  failed: number
+  /**
+   * Entries with nothing to write: fetch returned null, or no fetch
+   */
+  skipped: number
+}
+
+export interface WarmResult<TArgs extends any[] = any[]> extends WarmProgress {
+  errors: Array<{ args: TArgs; error: unknown }>
+}
+
+export interface ScheduleOptions<TArgs extends any[]> {
+  /**
+   * Interval in milliseconds; use either `every` or `cron`
+   */
+  every?: number
+  /**
+   * 5-field cron expression in the server's local time
+   */
+  cron?: string
+  /**
+   * Arguments of the entries to warm on each run
+   */
+  entries: () => TArgs[] | Promise<TArgs[]>
+  /**
+   * Job name for the lock and status record (default: definition name)
+   */
+  name?: string
+  warm?: WarmOptions
+}
+
+export interface ScheduledJob {
+  readonly name: string
+  /**
+   * Last run recorded by whichever instance ran the job
+   */
+  getStatus: () => Promise<ScheduledJobStatus>
+  stop: () => void
+}
+
+export interface ScheduledJobStatus {
+  runs: number
+  lastRunAt: number | null
+  lastDurationMs: number | null
+  lastResult: WarmProgress | null
+  lastError: string | null
+  /**
+   * Runs in a row that threw, or where every entry failed to warm
+   */
+  consecutiveFailures: number
 }
@@ -1,7 +1,24 @@
-import type { Redis, RedisOptions } from 'ioredis'
+import type {
+  Cluster,
+  ClusterNode,
+  ClusterOptions,
+  Redis,
+  RedisOptions,
+} from 'ioredis'
 import type { Serializer } from '../server/serializer.js'
+import type { CacheStore } from '../server/store.js'
 
-export type RedisConfig = string | Redis | RedisOptions
+export interface RedisClusterConfig {
+  nodes: ClusterNode[]
+  options?: ClusterOptions
+}
+
+export type RedisConfig =
+  | string
+  | Redis
+  | RedisOptions
+  | Cluster
+  | RedisClusterConfig
 
 export interface LocalCacheConfig {
   enabled?: boolean
@@ -12,6 +29,18 @@ export interface LocalCacheConfig {
 export interface PubSubConfig {
   enabled?: boolean
   transport?: 'redis-pubsub' | 'redis-streams'
+  /**
+   * Approximate number of events kept in the invalidation stream
+   * ('redis-streams' transport only)
+   */
+  streamMaxLength?: number
+  /**
+   * Stream entry ID to resume this instance's subscription after, instead
+   * of the newest entry ('redis-streams' transport only). Pass the last
+   * `id` a `subscribeInvalidations` handler persisted, so invalidations
+   * published while the process was down reach 'invalidate' listeners.
+   */
+  streamStartId?: string
   channels?: {
     invalidateKey?: string
     invalidateTag?: string
@@ -32,8 +61,14 @@ export interface CircuitBreakerConfig {
   halfOpenRequests?: number
 }
 
+export type ErrorStrategy = 'fallback' | 'throw' | 'stale'
+
 export interface ErrorHandlingConfig {
-  strategy?: 'fallback' | 'throw' | 'stale'
+  strategy?: ErrorStrategy
+  /**
+   * Seconds to keep the shadow copy served by the 'stale' strategy
+   */
+  staleTTL?: number
   circuitBreaker?: CircuitBreakerConfig
 }
 
@@ -46,14 +81,32 @@ export interface CacheHooks {
 }
 
 export interface CacheConfig {
-  redis: RedisConfig
+  redis?: RedisConfig
+  store?: CacheStore
   mode?: 'auto' | 'server' | 'serverless'
   prefix?: string
+  /**
+   * 'hash-tag' wraps definition names in `{}` so a definition's keys and
+   * its pattern and tag index sets share a Redis Cluster slot
+   */
+  keyLayout?: 'default' | 'hash-tag'
+  /**
+   * How tags are invalidated. 'index' (default) tracks each tag's keys and
+   * deletes them. 'generation' keeps a counter per tag that entries record
+   * when written: `invalidateTag` only increments it, and reads treat
+   * entries written under an older generation as misses.
+   */
+  tagStrategy?: 'index' | 'generation'
   serializer?: 'json' | 'superjson' | Serializer
   onError?: ErrorHandlingConfig
   local?: LocalCacheConfig
   pubsub?: PubSubConfig
   revalidation?: RevalidationConfig
+  /**
+   * Receives background revalidation promises, e.g. the platform's
+   * `waitUntil`, so serverless invocations aren't frozen before they settle
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
   debug?: boolean
   hooks?: CacheHooks
 }
@@ -25,8 +25,16 @@ export interface CacheSetEvent {
 export interface CacheInvalidateEvent {
   key?: string
   tag?: string
+  /**
+   * Tags invalidated together by `invalidateBatch`
+   */
+  tags?: string[]
   pattern?: string
   keys?: string[]
+  /**
+   * Instance ID of the cache that published the invalidation
+   */
+  origin?: string
   timestamp: number
 }
 
@@ -39,6 +47,9 @@ export interface CacheErrorEvent {
 
 export interface CircuitBreakerEvent {
   state: 'open' | 'closed' | 'half-open'
+  previousState: 'open' | 'closed' | 'half-open'
+  failures: number
+  nextAttempt?: number
   timestamp: number
 }
 
@@ -50,6 +61,7 @@ export type CacheEvent =
   | { type: 'error'; data: CacheErrorEvent }
   | { type: 'circuitOpen'; data: CircuitBreakerEvent }
   | { type: 'circuitClosed'; data: CircuitBreakerEvent }
+  | { type: 'circuitHalfOpen'; data: CircuitBreakerEvent }
 
 export type CacheEventHandler<T = any> = (event: T) => void
 
@@ -63,7 +75,7 @@ export interface CacheEventEmitter {
   ): void
   on(event: 'error', handler: CacheEventHandler<CacheErrorEvent>): void
   on(
-    event: 'circuitOpen' | 'circuitClosed',
+    event: 'circuitOpen' | 'circuitClosed' | 'circuitHalfOpen',
     handler: CacheEventHandler<CircuitBreakerEvent>
   ): void
 
@@ -3,6 +3,8 @@ import type { ReactNode } from 'react'
 export interface CacheProviderProps {
   children: ReactNode
   endpoint?: string
+  transport?: 'sse' | 'polling'
+  pollInterval?: number
 }
 
 export interface UseCacheOptions {
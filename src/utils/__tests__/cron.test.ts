@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { parseCron, nextCronTime } from '../cron.js'
+
+function at(text: string): number {
+  return new Date(text).getTime()
+}
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand lists, ranges and steps', () => {
+      const schedule = parseCron('*/15 9-17 1,15 * 1-5')
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45])
+      expect(schedule.hours.size).toBe(9)
+      expect([...schedule.daysOfMonth]).toEqual([1, 15])
+      expect(schedule.months.size).toBe(12)
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+    })
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('Invalid cron expression')
+      expect(() => parseCron('60 * * * *')).toThrow('Invalid cron expression')
+      expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron expression')
+      expect(() => parseCron('a * * * *')).toThrow('Invalid cron expression')
+    })
+  })
+
+  describe('nextCronTime', () => {
+    it('should find the next matching minute', () => {
+      const schedule = parseCron('*/15 * * * *')
+      expect(nextCronTime(schedule, at('2024-01-01T10:07:30'))).toBe(
+        at('2024-01-01T10:15:00')
+      )
+      expect(nextCronTime(schedule, at('2024-01-01T10:15:00'))).toBe(
+        at('2024-01-01T10:30:00')
+      )
+    })
+
+    it('should roll over hours, days and months', () => {
+      expect(
+        nextCronTime(parseCron('30 2 * * *'), at('2024-01-31T03:00:00'))
+      ).toBe(at('2024-02-01T02:30:00'))
+      expect(
+        nextCronTime(parseCron('0 0 1 3 *'), at('2024-01-15T00:00:00'))
+      ).toBe(at('2024-03-01T00:00:00'))
+    })
+
+    it('should match either day field when both are restricted', () => {
+      // 2024-01-06 is a Saturday
+      expect(
+        nextCronTime(parseCron('0 0 10 * 6'), at('2024-01-02T00:00:00'))
+      ).toBe(at('2024-01-06T00:00:00'))
+    })
+  })
+})
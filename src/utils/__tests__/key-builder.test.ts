@@ -16,9 +16,22 @@ describe('key-builder', () => {
       const result = buildCacheKey('myapp', 'user-posts', '123:published')
       expect(result).toBe('myapp:user-posts:123:published')
     })
+
+    it('should wrap the name in a hash tag when requested', () => {
+      const result = buildCacheKey('myapp', 'user', '123', true)
+      expect(result).toBe('myapp:{user}:123')
+    })
   })
 
   describe('parseCacheKey', () => {
+    it('should strip hash tag braces from the name', () => {
+      expect(parseCacheKey('myapp:{user}:123')).toEqual({
+        prefix: 'myapp',
+        name: 'user',
+        key: '123',
+      })
+    })
+
     it('should parse cache key into components', () => {
       const result = parseCacheKey('myapp:user:123')
 
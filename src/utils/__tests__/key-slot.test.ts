@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { extractHashTag, getKeySlot, groupBySlot } from '../key-slot.js'
+
+describe('key-slot', () => {
+  describe('getKeySlot', () => {
+    it('should match Redis Cluster slots', () => {
+      expect(getKeySlot('123456789')).toBe(12739)
+      expect(getKeySlot('foo')).toBe(12182)
+    })
+
+    it('should hash only the hash tag when present', () => {
+      expect(getKeySlot('{user1000}.following')).toBe(
+        getKeySlot('{user1000}.followers')
+      )
+      expect(getKeySlot('app:{user}:1')).toBe(getKeySlot('user'))
+    })
+  })
+
+  describe('extractHashTag', () => {
+    it('should extract the first non-empty tag', () => {
+      expect(extractHashTag('app:{user}:1')).toBe('user')
+      expect(extractHashTag('a{b}{c}')).toBe('b')
+    })
+
+    it('should ignore empty or unterminated tags', () => {
+      expect(extractHashTag('app:{}:1')).toBeNull()
+      expect(extractHashTag('app:{user')).toBeNull()
+      expect(extractHashTag('app:user:1')).toBeNull()
+    })
+  })
+
+  describe('groupBySlot', () => {
+    it('should group co-located keys together', () => {
+      const groups = groupBySlot(['app:{user}:1', 'foo', 'app:{user}:2'])
+
+      expect(groups).toHaveLength(2)
+      expect(groups).toContainEqual(['app:{user}:1', 'app:{user}:2'])
+      expect(groups).toContainEqual(['foo'])
+    })
+  })
+})
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { patternToRegex, matchPattern, filterByPattern } from '../pattern-match.js'
+import {
+  patternToRegex,
+  patternToLuaPattern,
+  patternToRedisGlob,
+  literalPrefix,
+  escapePattern,
+  matchPattern,
+  filterByPattern,
+} from '../pattern-match.js'
 
 describe('pattern-match', () => {
   describe('patternToRegex', () => {
@@ -27,6 +35,51 @@ describe('pattern-match', () => {
       expect(regex.test('user.123')).toBe(true)
       expect(regex.test('userX123')).toBe(false)
     })
+
+    it('should match * and ** across segments', () => {
+      expect(patternToRegex('user:*').test('user:1:posts')).toBe(true)
+      expect(patternToRegex('user:**').test('user:1:posts')).toBe(true)
+      // ** is an alias of *, not a separate multi-segment wildcard
+      expect(patternToRegex('a:**:b')).toEqual(patternToRegex('a:*:b'))
+      expect(patternToRegex('*:posts').test('app:user:1:posts')).toBe(true)
+      expect(patternToRegex('*:123').test('user:123')).toBe(true)
+    })
+
+    it('should support ?, character classes and escapes', () => {
+      expect(patternToRegex('user:?').test('user:7')).toBe(true)
+      expect(patternToRegex('user:?').test('user:17')).toBe(false)
+      expect(patternToRegex('user:[ab]1').test('user:b1')).toBe(true)
+      expect(patternToRegex('user:[a-c]').test('user:d')).toBe(false)
+      expect(patternToRegex('user:[!a]').test('user:b')).toBe(true)
+      expect(patternToRegex('user:[!a]').test('user:a')).toBe(false)
+      expect(patternToRegex('user:\\*').test('user:*')).toBe(true)
+      expect(patternToRegex('user:\\*').test('user:1')).toBe(false)
+      expect(patternToRegex('user:[1').test('user:[1')).toBe(true)
+    })
+  })
+
+  describe('other targets', () => {
+    it('should build Lua patterns with the same matches', () => {
+      expect(patternToLuaPattern('user-1:*')).toBe('^user%-1:.*$')
+      expect(patternToLuaPattern('a:**:[!x-z]?')).toBe('^a:.*:[^x-z].$')
+    })
+
+    it('should build equivalent Redis globs', () => {
+      expect(patternToRedisGlob('user:*:posts')).toBe('user:*:posts')
+      expect(patternToRedisGlob('a:**:[!x]?')).toBe('a:*:[^x]?')
+    })
+
+    it('should find the literal prefix', () => {
+      expect(literalPrefix('user:1*:posts')).toBe('user:1')
+      expect(literalPrefix('*:123')).toBe('')
+      expect(literalPrefix('user:123')).toBe('user:123')
+    })
+
+    it('should escape text to match itself', () => {
+      const text = 'app[1]*?'
+      expect(matchPattern(escapePattern(text), text)).toBe(true)
+      expect(matchPattern(escapePattern(text), 'app1x?')).toBe(false)
+    })
   })
 
   describe('matchPattern', () => {
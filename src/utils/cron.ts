@@ -0,0 +1,123 @@
+/**
+ * Minimal 5-field cron expressions: minute hour day-of-month month
+ * day-of-week, each supporting `*`, lists, ranges and `/` steps.
+ * Times are evaluated in the server's local timezone.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /**
+   * Cron matches either day field when both are restricted
+   */
+  anyDay: boolean
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, 0 and 7 are Sunday
+]
+
+// Far enough to find Feb 29 from any start
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+function parseField(
+  field: string,
+  [min, max]: [number, number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+
+    let start = min
+    let end = max
+    if (range !== '*') {
+      const [from = '', to] = range.split('-')
+      start = Number(from)
+      end =
+        to === undefined ? (stepText === undefined ? start : max) : Number(to)
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron expression: ${expression}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${expression}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i]!, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: fields[2] !== '*' && fields[4] !== '*',
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek
+}
+
+/**
+ * Epoch ms of the first matching minute strictly after `after`
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number {
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  while (date.getTime() - after < MAX_SEARCH_MS) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+    } else {
+      return date.getTime()
+    }
+  }
+
+  throw new Error('Cron expression never matches')
+}
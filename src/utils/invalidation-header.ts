@@ -0,0 +1,92 @@
+/**
+ * Response header carrying the invalidations an action just made, so the
+ * browser that sent it can revalidate without waiting for SSE or polling
+ */
+export const INVALIDATION_HEADER = 'X-Cache-Invalidate'
+
+/**
+ * Longest header value sent. Proxies reject responses whose headers pass
+ * a few KB in total (4-8 KB for nginx by default).
+ */
+export const MAX_INVALIDATION_HEADER_LENGTH = 2048
+
+export interface InvalidationHeaderValue {
+  tags: string[]
+  keys: string[]
+  timestamp: number
+  /**
+   * Too many tags and keys to list, so none are: revalidate everything
+   */
+  truncated?: boolean
+}
+
+/**
+ * Header values must be ASCII, so the JSON is percent-encoded
+ */
+export function encodeInvalidationHeader(
+  value: InvalidationHeaderValue
+): string {
+  const encoded = encodeURIComponent(JSON.stringify(value))
+  if (encoded.length <= MAX_INVALIDATION_HEADER_LENGTH) return encoded
+
+  return encodeURIComponent(
+    JSON.stringify({
+      tags: [],
+      keys: [],
+      timestamp: value.timestamp,
+      truncated: true,
+    })
+  )
+}
+
+export function decodeInvalidationHeader(
+  header: string
+): InvalidationHeaderValue | undefined {
+  try {
+    const value = JSON.parse(decodeURIComponent(header))
+    if (isInvalidationValue(value)) return value
+  } catch (e) {
+    // Ignore malformed headers
+  }
+  return undefined
+}
+
+/**
+ * Property carrying the invalidations in object action data, which
+ * `useActionData` and `fetcher.data` expose where response headers aren't
+ */
+export const INVALIDATION_DATA_KEY = '__cacheInvalidation'
+
+/**
+ * A copy of `data` with the invalidations added, when it is a plain
+ * object; anything else (arrays, primitives, class instances) as is
+ */
+export function withInvalidationData<T>(
+  data: T,
+  value: InvalidationHeaderValue
+): T {
+  if (!isPlainObject(data)) return data
+  return { ...data, [INVALIDATION_DATA_KEY]: value }
+}
+
+/**
+ * The invalidations `withInvalidationData` added to action data, if any
+ */
+export function readInvalidationData(
+  data: unknown
+): InvalidationHeaderValue | undefined {
+  if (!isPlainObject(data)) return undefined
+
+  const value = data[INVALIDATION_DATA_KEY]
+  return isInvalidationValue(value) ? value : undefined
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+function isInvalidationValue(value: any): value is InvalidationHeaderValue {
+  return Array.isArray(value?.tags) && Array.isArray(value?.keys)
+}
@@ -3,14 +3,17 @@
  */
 
 /**
- * Build a full cache key with prefix and name
+ * Build a full cache key with prefix and name.
+ * With `hashTag`, the name is wrapped in `{}` so all keys of a
+ * definition land in the same Redis Cluster slot.
  */
 export function buildCacheKey(
   prefix: string,
   name: string,
-  key: string
+  key: string,
+  hashTag = false
 ): string {
-  return `${prefix}:${name}:${key}`
+  return hashTag ? `${prefix}:{${name}}:${key}` : `${prefix}:${name}:${key}`
 }
 
 /**
@@ -24,7 +27,7 @@ export function parseCacheKey(
 
   return {
     prefix: parts[0] || '',
-    name: parts[1] || '',
+    name: (parts[1] || '').replace(/^\{(.*)\}$/, '$1'),
     key: parts.slice(2).join(':'),
   }
 }
@@ -0,0 +1,81 @@
+/**
+ * Redis Cluster hash slot utilities
+ */
+
+const SLOT_COUNT = 16384
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+    }
+    table[i] = crc & 0xffff
+  }
+  return table
+})()
+
+/**
+ * CRC16 (XMODEM) as used by Redis Cluster
+ */
+function crc16(input: Buffer): number {
+  let crc = 0
+  for (const byte of input) {
+    crc = ((crc << 8) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff]!) & 0xffff
+  }
+  return crc
+}
+
+/**
+ * Extract the hash tag from a key: the content of the first `{...}`
+ * when it is non-empty, otherwise null
+ */
+export function extractHashTag(key: string): string | null {
+  const start = key.indexOf('{')
+  if (start === -1) return null
+
+  const end = key.indexOf('}', start + 1)
+  if (end === -1 || end === start + 1) return null
+
+  return key.slice(start + 1, end)
+}
+
+/**
+ * Remove the braces around a key's hash tag, e.g. "app:{user}:1" becomes
+ * "app:user:1"
+ */
+export function stripHashTag(key: string): string {
+  const tag = extractHashTag(key)
+  if (tag === null) return key
+
+  const start = key.indexOf('{')
+  return key.slice(0, start) + tag + key.slice(start + tag.length + 2)
+}
+
+/**
+ * Compute the Redis Cluster hash slot for a key
+ */
+export function getKeySlot(key: string): number {
+  const hashed = extractHashTag(key) ?? key
+  return crc16(Buffer.from(hashed)) % SLOT_COUNT
+}
+
+/**
+ * Group keys by hash slot so multi-key commands never span slots
+ */
+export function groupBySlot(keys: string[]): string[][] {
+  const groups = new Map<number, string[]>()
+
+  for (const key of keys) {
+    const slot = getKeySlot(key)
+    const group = groups.get(slot)
+    if (group) {
+      group.push(key)
+    } else {
+      groups.set(slot, [key])
+    }
+  }
+
+  return [...groups.values()]
+}
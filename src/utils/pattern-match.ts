@@ -1,14 +1,196 @@
+/**
+ * Glob patterns over keys, with Redis glob semantics:
+ *
+ * - `*` matches any characters, `:` included, so 'user:*' also matches
+ *   'user:1:posts'; `**` is accepted as the same thing
+ * - `?` matches one character
+ * - `[abc]`, `[a-z]` and `[!abc]` (or `[^abc]`) match one character
+ * - `\` makes the next character literal
+ */
+
+type ClassItem = string | { from: string; to: string }
+
+type Token =
+  | { type: 'literal'; value: string }
+  | { type: 'star' }
+  | { type: 'any' }
+  | { type: 'class'; negated: boolean; items: ClassItem[] }
+
+function parseClass(
+  pattern: string,
+  start: number
+): { token: Token; end: number } | undefined {
+  let i = start + 1
+  const negated = pattern[i] === '!' || pattern[i] === '^'
+  if (negated) i++
+
+  const items: ClassItem[] = []
+  // A `]` right after the opening bracket is a member, not the end
+  while (i < pattern.length && (pattern[i] !== ']' || items.length === 0)) {
+    const char = pattern[i] === '\\' ? pattern[++i] : pattern[i]
+    if (char === undefined) return undefined
+
+    if (pattern[i + 1] === '-' && pattern[i + 2] && pattern[i + 2] !== ']') {
+      items.push({ from: char, to: pattern[i + 2]! })
+      i += 3
+    } else {
+      items.push(char)
+      i++
+    }
+  }
+
+  if (i >= pattern.length) return undefined
+  return { token: { type: 'class', negated, items }, end: i + 1 }
+}
+
+function tokenize(pattern: string): Token[] {
+  const tokens: Token[] = []
+  const pushLiteral = (char: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last?.type === 'literal') {
+      last.value += char
+    } else {
+      tokens.push({ type: 'literal', value: char })
+    }
+  }
+
+  let i = 0
+  while (i < pattern.length) {
+    const char = pattern[i]!
+    if (char === '*') {
+      if (tokens[tokens.length - 1]?.type !== 'star') {
+        tokens.push({ type: 'star' })
+      }
+      i++
+    } else if (char === '?') {
+      tokens.push({ type: 'any' })
+      i++
+    } else if (char === '[') {
+      const parsed = parseClass(pattern, i)
+      if (parsed) {
+        tokens.push(parsed.token)
+        i = parsed.end
+      } else {
+        // Unterminated class: a literal bracket
+        pushLiteral(char)
+        i++
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      pushLiteral(pattern[i + 1]!)
+      i += 2
+    } else {
+      pushLiteral(char)
+      i++
+    }
+  }
+
+  return tokens
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+}
+
+function escapeLua(value: string): string {
+  return value.replace(/[\^$()%.[\]*+\-?]/g, '%$&')
+}
+
+function escapeRedisGlob(value: string): string {
+  return value.replace(/[*?[\]\\^-]/g, '\\$&')
+}
+
+function classBody(
+  items: ClassItem[],
+  escape: (value: string) => string
+): string {
+  return items
+    .map((item) =>
+      typeof item === 'string'
+        ? escape(item)
+        : `${escape(item.from)}-${escape(item.to)}`
+    )
+    .join('')
+}
+
 /**
  * Convert glob pattern to RegExp
  */
 export function patternToRegex(pattern: string): RegExp {
-  // Escape special regex characters except *
-  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+  const source = tokenize(pattern)
+    .map((token) => {
+      switch (token.type) {
+        case 'literal':
+          return escapeRegex(token.value)
+        case 'star':
+          return '.*'
+        case 'any':
+          return '.'
+        case 'class':
+          return `[${token.negated ? '^' : ''}${classBody(token.items, escapeRegex)}]`
+      }
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`)
+}
 
-  // Replace * with .*
-  const regex = escaped.replace(/\*/g, '.*')
+/**
+ * Convert glob pattern to an anchored Lua pattern with the same matches,
+ * for matching inside Redis scripts
+ */
+export function patternToLuaPattern(pattern: string): string {
+  const source = tokenize(pattern)
+    .map((token) => {
+      switch (token.type) {
+        case 'literal':
+          return escapeLua(token.value)
+        case 'star':
+          return '.*'
+        case 'any':
+          return '.'
+        case 'class':
+          return `[${token.negated ? '^' : ''}${classBody(token.items, escapeLua)}]`
+      }
+    })
+    .join('')
 
-  return new RegExp(`^${regex}$`)
+  return `^${source}$`
+}
+
+/**
+ * Redis glob (SCAN/SSCAN `MATCH`) for the pattern, e.g. to narrow what
+ * Redis returns before `patternToRegex` or `patternToLuaPattern` checks it
+ */
+export function patternToRedisGlob(pattern: string): string {
+  return tokenize(pattern)
+    .map((token) => {
+      switch (token.type) {
+        case 'literal':
+          return escapeRedisGlob(token.value)
+        case 'star':
+          return '*'
+        case 'any':
+          return '?'
+        case 'class':
+          return `[${token.negated ? '^' : ''}${classBody(token.items, escapeRedisGlob)}]`
+      }
+    })
+    .join('')
+}
+
+/**
+ * Literal text every match starts with, e.g. 'user:1' for 'user:1*:posts'
+ */
+export function literalPrefix(pattern: string): string {
+  const [first] = tokenize(pattern)
+  return first?.type === 'literal' ? first.value : ''
+}
+
+/**
+ * Escape text so it matches itself in a pattern
+ */
+export function escapePattern(value: string): string {
+  return value.replace(/[*?[\\]/g, '\\$&')
 }
 
 /**